@@ -1,13 +1,97 @@
-import { useState } from "react";
-import * as ts from "typescript";
-import { parseCode } from "./utils/parser";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { defaultParseOptions, languageModes, ParseDiagnostic, ParseOptions, TextEdit } from "./utils/parser";
 import { CodeEditor } from "./components/CodeEditor";
 import { RingsVisualization } from "./components/RingsVisualization";
+import { RadialTreeVisualization } from "./components/RadialTreeVisualization";
 import { ASTNodes } from "./components/ASTNodes";
 import { SegmentedControl } from "./components/SegmentedControl";
 import { CustomSelect } from "./components/CustomSelect";
 import { QRModal } from "./components/QRModal";
+import { countDiscovered, Lexidex } from "./components/Lexidex";
+import { DiscoveryToast } from "./components/DiscoveryToast";
+import { SyntaxKindGuide } from "./components/SyntaxKindGuide";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { ParseOptionsControl } from "./components/ParseOptionsControl";
+import { TokenStream } from "./components/TokenStream";
+import { NodeInspector } from "./components/NodeInspector";
+import { ScopesView } from "./components/ScopesView";
+import { QueryBar } from "./components/QueryBar";
+import { TransformPane } from "./components/TransformPane";
+import { CompareSide, CompareView } from "./components/CompareView";
+import { ExportPanel } from "./components/ExportPanel";
+import { StatsView } from "./components/StatsView";
 import { examples } from "./examples";
+import { findNodeAtPosition, findNodeCoveringRange, indexSyntaxTree } from "./utils/syntaxTree";
+import { HighlightRange, nodeRange } from "./utils/editorHighlights";
+import { TokenInfo } from "./utils/tokens";
+import { NodeDetails } from "./utils/nodeDetails";
+import { TypeInfo } from "./utils/typeChecker";
+import { Binding, indexBindings } from "./utils/scopes";
+import { QueryResult } from "./utils/query";
+import { useParsedDocument } from "./hooks/useParsedDocument";
+import { SpecimenLibrary } from "./components/SpecimenLibrary";
+import { useSpecimenLibrary } from "./hooks/useSpecimenLibrary";
+import { useLexidex } from "./hooks/useLexidex";
+import { decodePermalink, encodePermalink, permalinkUrl } from "./utils/permalink";
+import { Specimen, SPECIMEN_PREFIX } from "./utils/specimens";
+import { loadWorkspace, saveWorkspace } from "./utils/workspace";
+import { GuideEntry } from "./utils/syntaxKindGuide";
+import { TreeStats, treeStatsToCsv } from "./utils/treeStats";
+import { downloadFile } from "./utils/download";
+
+type VizMode = "nodes" | "rings" | "radial" | "tokens" | "scopes" | "stats" | "compare";
+
+const vizModes: VizMode[] = ["nodes", "rings", "radial", "tokens", "scopes", "stats", "compare"];
+
+// Wait for a pause in typing before rewriting the URL and autosaving
+const SAVE_DEBOUNCE_MS = 500;
+
+// Compare mode starts on the other half of the FizzBuzz pair
+const defaultCompareExample = "FizzBuzz: Functional";
+
+// What the user picked: a node clicked in a visualization (kept as a path so
+// it survives re-parses) or a cursor position in the editor
+type Selection =
+  | { kind: "node"; path: string }
+  | { kind: "cursor"; position: number };
+
+// The code behind an example picker value: a preset, or a saved specimen
+function findPickedCode(value: string, specimens: Specimen[]): string | undefined {
+  if (value.startsWith(SPECIMEN_PREFIX)) {
+    return specimens.find((specimen) => SPECIMEN_PREFIX + specimen.id === value)?.code;
+  }
+  return examples.find((ex) => ex.name === value)?.code;
+}
+
+/**
+ * A saved state - from a permalink or the last visit's autosave - checked
+ * against this build and library: code from an unknown example or specimen
+ * becomes custom code, unknown modes the Nodes view.
+ */
+function restoreState(
+  state: {
+    code?: string;
+    example: string;
+    vizMode: string;
+    parseOptions: ParseOptions;
+    selectedPath: string | null;
+  } | null,
+  specimens: Specimen[],
+) {
+  if (!state) return null;
+
+  const pickedCode = findPickedCode(state.example, specimens);
+  const code = state.code ?? pickedCode;
+  if (code === undefined) return null;
+
+  return {
+    code,
+    example: pickedCode === code ? state.example : "Custom",
+    vizMode: vizModes.find((mode) => mode === state.vizMode) ?? "nodes",
+    parseOptions: state.parseOptions,
+    selectedPath: state.selectedPath,
+  };
+}
 
 /**
  * Main App Component
@@ -36,48 +120,416 @@ import { examples } from "./examples";
  * This visualizer shows you what parsers see: the hidden structure beneath your code.
  */
 function App() {
-  const [sourceCode, setSourceCode] = useState(examples[0].code);
+  const library = useSpecimenLibrary();
+
+  // A permalink in the URL picks the starting state; otherwise the last
+  // visit's autosave, otherwise the first example
+  const [saved] = useState(loadWorkspace);
+  const [restored] = useState(() =>
+    restoreState(decodePermalink(window.location.hash) ?? saved, library.specimens),
+  );
+  const [sourceCode, setSourceCode] = useState(restored?.code ?? examples[0].code);
   const [selectedExample, setSelectedExample] = useState<string>(
-    examples[0].name,
+    restored?.example ?? examples[0].name,
+  );
+  const [parseOptions, setParseOptions] = useState<ParseOptions>(
+    restored?.parseOptions ?? {
+      ...defaultParseOptions,
+      ...examples[0].parseOptions,
+    },
   );
-  const [vizMode, setVizMode] = useState<"nodes" | "rings">("nodes");
+  const [vizMode, setVizMode] = useState<VizMode>(restored?.vizMode ?? "nodes");
+  const [compareCode, setCompareCode] = useState(
+    () => saved?.compareCode ?? examples.find((ex) => ex.name === defaultCompareExample)?.code ?? "",
+  );
+  const [compareExample, setCompareExample] = useState(saved?.compareExample ?? defaultCompareExample);
+  const [compareHoveredRange, setCompareHoveredRange] = useState<HighlightRange | null>(null);
   const [isQRModalOpen, setIsQRModalOpen] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [showReuse, setShowReuse] = useState(false); // Overlay: reused vs rebuilt nodes
+  const [showInspector, setShowInspector] = useState(saved?.showInspector ?? true);
+  const [showTransform, setShowTransform] = useState(saved?.showTransform ?? false); // Third pane: run a transformer, see the output
+  const [showExport, setShowExport] = useState(false);
+  const [isLexidexOpen, setIsLexidexOpen] = useState(false);
+  const [isGuideOpen, setIsGuideOpen] = useState(false);
+  const [guideKind, setGuideKind] = useState<string | null>(null); // Kind name open in the guide
+  const figureRef = useRef<HTMLDivElement>(null); // Holds the visualization, for export
+
+  // Visualizer ↔ Editor highlighting state
+  const [hoveredPath, setHoveredPath] = useState<string | null>(null); // Hover node → highlight code
+  const [hoveredSpan, setHoveredSpan] = useState<HighlightRange | null>(null); // Hover token/comment → highlight code
+  const [selection, setSelection] = useState<Selection | null>(
+    restored?.selectedPath != null ? { kind: "node", path: restored.selectedPath } : null,
+  ); // Click node / move cursor → select
+
+  // Parse in a background worker whenever the code or parser settings change.
+  // The last finished parse stays on screen until the next one arrives.
+  const { document: parseResult, isParsing, recordEdits, runQuery } = useParsedDocument(
+    sourceCode,
+    parseOptions,
+  );
+
+  // Every kind seen across parses, and where each sits in this one
+  const lexidex = useLexidex(parseResult?.success ? parseResult : null);
+  const lexidexCount = countDiscovered(lexidex.lexidex);
+
+  const nodesByPath = useMemo(
+    () => (parseResult?.success ? indexSyntaxTree(parseResult.tree) : null),
+    [parseResult],
+  );
+
+  // Resolve the selection against the latest tree
+  const selectedNode = useMemo(() => {
+    if (!parseResult?.success || !nodesByPath || !selection) return null;
+
+    if (selection.kind === "node") {
+      return nodesByPath.get(selection.path) ?? null;
+    }
+
+    // A cursor in the gaps between statements selects nothing
+    const node = findNodeAtPosition(parseResult.tree, selection.position);
+    return node === parseResult.tree ? null : node;
+  }, [parseResult, nodesByPath, selection]);
+
+  const hoveredNode = (hoveredPath !== null && nodesByPath?.get(hoveredPath)) || null;
+
+  const hoveredRange = useMemo(() => {
+    if (hoveredNode) return nodeRange(hoveredNode);
+    return hoveredSpan;
+  }, [hoveredNode, hoveredSpan]);
+
+  const selectedRange = useMemo(
+    () => (selectedNode ? nodeRange(selectedNode) : null),
+    [selectedNode],
+  );
+
+  // Which binding each identifier resolves to, for reference highlighting
+  const bindingsByPath = useMemo(
+    () => (parseResult?.success ? indexBindings(parseResult.scopes) : null),
+    [parseResult],
+  );
+  const selectedBinding = (selectedNode && bindingsByPath?.get(selectedNode.path)) || null;
+
+  const references = useMemo(() => {
+    if (!selectedBinding) return null;
+    const occurrences = selectedBinding.path !== null
+      ? [{ path: selectedBinding.path, from: selectedBinding.from, to: selectedBinding.to }, ...selectedBinding.references]
+      : selectedBinding.references;
+    return {
+      paths: new Set(occurrences.map((occurrence) => occurrence.path)),
+      ranges: occurrences.map(({ from, to }) => ({ from, to })),
+    };
+  }, [selectedBinding]);
+
+  // The inspector needs the real ts.Node, so the worker describes it
+  const [inspected, setInspected] = useState<NodeDetails | null>(null);
+  const [typeInfo, setTypeInfo] = useState<TypeInfo | null>(null);
+
+  useEffect(() => {
+    if (!showInspector || !selectedNode) {
+      setInspected(null);
+      setTypeInfo(null);
+      return;
+    }
+
+    // The checker's answer can take longer (lib files load on first use)
+    let isCurrent = true;
+    runQuery("inspect", { path: selectedNode.path }).then((details) => {
+      if (isCurrent) setInspected(details);
+    });
+    runQuery("typeInfo", { path: selectedNode.path }).then((info) => {
+      if (isCurrent) setTypeInfo(info);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [showInspector, selectedNode, runQuery]);
+
+  // Query bar: selectors are matched against the real tree in the worker
+  const [query, setQuery] = useState("");
+  const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
+
+  useEffect(() => {
+    if (!query.trim() || !parseResult?.success) {
+      setQueryResult(null);
+      return;
+    }
+
+    let isCurrent = true;
+    runQuery("select", { selector: query }).then((result) => {
+      if (isCurrent) setQueryResult(result);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [query, parseResult, runQuery]);
+
+  const matches = useMemo(() => {
+    if (!queryResult?.success) return null;
+    return {
+      paths: new Set(queryResult.matches.map((match) => match.path)),
+      ranges: queryResult.matches.map(({ start, end }) => ({ from: start, to: end })),
+    };
+  }, [queryResult]);
+
+  // Stepping through matches moves the selection, which scrolls every view
+  const matchIndex = queryResult?.success && selectedNode
+    ? queryResult.matches.findIndex((match) => match.path === selectedNode.path)
+    : -1;
+
+  const handleMatchStep = (direction: 1 | -1) => {
+    if (!queryResult?.success || queryResult.matches.length === 0) return;
+    const count = queryResult.matches.length;
+    const next = matchIndex === -1
+      ? (direction === 1 ? 0 : count - 1)
+      : (matchIndex + direction + count) % count;
+    setSelection({ kind: "node", path: queryResult.matches[next].path });
+  };
+
+  // Type errors, checked in the worker after each parse
+  const [semanticDiagnostics, setSemanticDiagnostics] = useState<ParseDiagnostic[]>([]);
+
+  useEffect(() => {
+    if (!parseResult?.success) {
+      setSemanticDiagnostics([]);
+      return;
+    }
+
+    let isCurrent = true;
+    runQuery("semanticDiagnostics", {}).then((diagnostics) => {
+      if (isCurrent) setSemanticDiagnostics(diagnostics ?? []);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [parseResult, runQuery]);
+
+  // Tree metrics, measured in the worker after each parse while the view is open
+  const [stats, setStats] = useState<TreeStats | null>(null);
+
+  useEffect(() => {
+    if (vizMode !== "stats" || !parseResult?.success) {
+      setStats(null);
+      return;
+    }
+
+    let isCurrent = true;
+    runQuery("stats", {}).then((result) => {
+      if (isCurrent) setStats(result);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [vizMode, parseResult, runQuery]);
+
+  // The URL hash always holds a permalink to what's on screen. replaceState
+  // rather than pushState: a history entry per keystroke would make Back
+  // useless.
+  const selectedPath = selectedNode?.path ?? null;
+  const permalinkHash = useCallback(
+    () =>
+      encodePermalink(
+        { code: sourceCode, example: selectedExample, vizMode, parseOptions, selectedPath },
+        examples.find((ex) => ex.name === selectedExample)?.code,
+      ),
+    [sourceCode, selectedExample, vizMode, parseOptions, selectedPath],
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      window.history.replaceState(null, "", `#${permalinkHash()}`);
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [permalinkHash]);
+
+  // Autosave, so a visit without a permalink picks up where this one left off
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      saveWorkspace({
+        code: sourceCode,
+        example: selectedExample,
+        vizMode,
+        parseOptions,
+        selectedPath,
+        compareCode,
+        compareExample,
+        showInspector,
+        showTransform,
+      });
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [sourceCode, selectedExample, vizMode, parseOptions, selectedPath, compareCode, compareExample, showInspector, showTransform]);
+
+  // A permalink pasted into this tab's address bar only changes the hash
+  const { specimens } = library;
+  useEffect(() => {
+    const handleHashChange = () => {
+      const state = restoreState(decodePermalink(window.location.hash), specimens);
+      if (!state) return;
+      setSourceCode(state.code);
+      setSelectedExample(state.example);
+      setParseOptions(state.parseOptions);
+      setVizMode(state.vizMode);
+      setSelection(state.selectedPath !== null ? { kind: "node", path: state.selectedPath } : null);
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [specimens]);
+
+  const handleCopyLink = () => {
+    const url = permalinkUrl(permalinkHash());
+    window.history.replaceState(null, "", url);
+    navigator.clipboard.writeText(url).then(
+      () => setCopyStatus("Link copied"),
+      () => setCopyStatus("Couldn't copy - use the address bar"),
+    );
+  };
+
+  useEffect(() => {
+    if (copyStatus === null) return;
+    const timer = setTimeout(() => setCopyStatus(null), 2000);
+    return () => clearTimeout(timer);
+  }, [copyStatus]);
+
+  // Rings and Radial are pictured as their SVG alone (not the breadcrumbs
+  // around it); the HTML views as the whole view
+  const getVisualization = () => {
+    if (!parseResult?.success || !figureRef.current) return null;
+    return vizMode === "rings" || vizMode === "radial"
+      ? figureRef.current.querySelector("svg")
+      : figureRef.current.firstElementChild;
+  };
+
+  const plateTitle = selectedExample.startsWith(SPECIMEN_PREFIX)
+    ? specimens.find((specimen) => SPECIMEN_PREFIX + specimen.id === selectedExample)?.name ?? "Specimen"
+    : selectedExample;
+
+  const handleNodeSelect = (path: string) => {
+    setSelection({ kind: "node", path });
+  };
 
-  // Visualizer → Editor highlighting state
-  const [hoveredNode, setHoveredNode] = useState<ts.Node | null>(null); // Hover node → highlight code
+  const closeLexidex = useCallback(() => setIsLexidexOpen(false), []);
+  const closeGuide = useCallback(() => setIsGuideOpen(false), []);
 
-  // Parse the code whenever it changes (always using TypeScript mode)
-  const parseResult = parseCode(sourceCode);
+  // Both panels slide in from the right, so opening one closes the other
+  const toggleLexidex = () => {
+    setIsLexidexOpen(!isLexidexOpen);
+    setIsGuideOpen(false);
+  };
+
+  const toggleGuide = () => {
+    setIsGuideOpen(!isGuideOpen);
+    setIsLexidexOpen(false);
+  };
+
+  const handleKindInfo = (kindName: string) => {
+    setGuideKind(kindName);
+    setIsGuideOpen(true);
+    setIsLexidexOpen(false);
+  };
+
+  // A guide snippet replaces the code, parsed as its language, with its
+  // kind picked out by the query bar
+  const handleLoadSnippet = (entry: GuideEntry) => {
+    if (entry.snippet === null) return;
+    setSourceCode(entry.snippet);
+    setSelectedExample("Custom");
+    setSelection(null);
+    setParseOptions({ ...parseOptions, language: entry.language });
+    setQuery(entry.name);
+  };
+
+  // Picking a binding selects its declaration (or first use, if undeclared)
+  const handleBindingSelect = (binding: Binding) => {
+    const path = binding.path ?? binding.references[0]?.path;
+    if (path !== undefined) handleNodeSelect(path);
+  };
+
+  // A token selects the node built from it (or the construct it belongs to)
+  const handleTokenSelect = (token: TokenInfo) => {
+    if (!parseResult?.success) return;
+    const node = findNodeCoveringRange(parseResult.tree, token.start, token.end);
+    setSelection(node === parseResult.tree ? null : { kind: "node", path: node.path });
+  };
+
+  const handleCursorChange = (position: number) => {
+    setSelection({ kind: "cursor", position });
+  };
 
   // Handle example selection
   const handleExampleChange = (exampleName: string) => {
+    const specimen = specimens.find((s) => SPECIMEN_PREFIX + s.id === exampleName);
+    if (specimen) {
+      setSourceCode(specimen.code);
+      setSelectedExample(exampleName);
+      setSelection(null);
+      setParseOptions(specimen.parseOptions);
+      return;
+    }
+
     const example = examples.find((ex) => ex.name === exampleName);
     if (example) {
       setSourceCode(example.code);
       setSelectedExample(exampleName);
+      setSelection(null);
+      setParseOptions({ ...defaultParseOptions, ...example.parseOptions });
+    }
+  };
+
+  const handleCompareExampleChange = (exampleName: string) => {
+    const example = examples.find((ex) => ex.name === exampleName);
+    if (example) {
+      setCompareCode(example.code);
+      setCompareExample(exampleName);
+    }
+  };
+
+  const handleCompareCodeChange = (newCode: string) => {
+    setCompareCode(newCode);
+    setCompareExample(examples.find((ex) => ex.code === newCode)?.name ?? "Custom");
+  };
+
+  // Compare mode hovers land in whichever editor holds that version
+  const handleCompareRangeHover = (side: CompareSide, range: HighlightRange | null) => {
+    if (side === "before") {
+      setHoveredSpan(range);
+    } else {
+      setCompareHoveredRange(range);
     }
   };
 
   // Handle manual code changes - switch to "Custom" if user edits
-  const handleCodeChange = (newCode: string) => {
+  const handleCodeChange = (newCode: string, edits: TextEdit[]) => {
+    recordEdits(edits);
     setSourceCode(newCode);
 
-    // Check if the new code matches any example
+    // Check if the new code matches any example (or is still the specimen
+    // that was loaded)
     const matchingExample = examples.find((ex) => ex.code === newCode);
     if (matchingExample) {
       setSelectedExample(matchingExample.name);
-    } else if (selectedExample !== "Custom") {
+    } else if (findPickedCode(selectedExample, specimens) !== newCode) {
       setSelectedExample("Custom");
     }
   };
 
+  const handleSpecimenSave = (name: string, tags: string[]) => {
+    const specimen = library.save(name, tags, sourceCode, parseOptions);
+    setSelectedExample(SPECIMEN_PREFIX + specimen.id);
+  };
+
+  const handleSpecimenRemove = (id: string) => {
+    library.remove(id);
+    if (selectedExample === SPECIMEN_PREFIX + id) setSelectedExample("Custom");
+  };
+
   return (
     <div
       className="paper-layer"
       style={{ height: "100vh", display: "flex", flexDirection: "column" }}
     >
       {/* Header */}
-      <header className="app-header">
+      <header className="app-header no-print">
         <h1 className="app-title" style={{
           textShadow: "0 1px 2px rgba(255, 255, 255, 0.8), 0 2px 4px rgba(45, 31, 20, 0.15)",
           filter: "drop-shadow(0 1px 3px rgba(255, 255, 255, 0.5))"
@@ -106,18 +558,86 @@ function App() {
         <p className="app-subtitle">
           See how parsers read your code. Every syntax tree, visualized.
         </p>
+
+        {/* Share this specimen: the URL is a permalink to the code and view */}
+        <div className="app-header-actions">
+          {copyStatus && <span className="specimen-label">{copyStatus}</span>}
+          <button type="button" className="field-button" onClick={handleCopyLink}>
+            Copy link
+          </button>
+          <button type="button" className="field-button" onClick={() => setIsQRModalOpen(true)}>
+            QR code
+          </button>
+          <button
+            type="button"
+            className={`field-button${isLexidexOpen ? " active" : ""}`}
+            aria-pressed={isLexidexOpen}
+            onClick={toggleLexidex}
+            title={
+              lexidex.storageError
+                ? "Every kind of syntax you've written - the browser won't save it, so it resets on reload"
+                : "Every kind of syntax you've written so far"
+            }
+          >
+            Lexidex: {lexidexCount.found}/{lexidexCount.total}
+          </button>
+          <button
+            type="button"
+            className={`field-button${isGuideOpen ? " active" : ""}`}
+            aria-pressed={isGuideOpen}
+            onClick={toggleGuide}
+            title="What every SyntaxKind is, with a snippet that produces it"
+          >
+            Field guide
+          </button>
+        </div>
       </header>
 
       {/* QR Code Modal */}
-      <QRModal isOpen={isQRModalOpen} onClose={() => setIsQRModalOpen(false)} />
+      <QRModal
+        isOpen={isQRModalOpen}
+        onClose={() => setIsQRModalOpen(false)}
+        url={isQRModalOpen ? permalinkUrl(permalinkHash()) : ""}
+        onCopyLink={handleCopyLink}
+        copyStatus={copyStatus}
+      />
 
-      {/* Split layout: Editor left, Tree right */}
+      {/* The collection of syntax kinds, and news of new finds */}
+      <Lexidex
+        isOpen={isLexidexOpen}
+        onClose={closeLexidex}
+        lexidex={lexidex.lexidex}
+        occurrences={lexidex.occurrences}
+        source={lexidex.source}
+        onRangeHover={setHoveredSpan}
+        onNodeSelect={handleNodeSelect}
+      />
+      <DiscoveryToast
+        discoveries={lexidex.discoveries}
+        onOpen={() => {
+          setIsLexidexOpen(true);
+          setIsGuideOpen(false);
+        }}
+        onDismiss={lexidex.dismissDiscoveries}
+      />
+
+      {/* What each syntax kind is, opened from the tree or the inspector */}
+      <SyntaxKindGuide
+        isOpen={isGuideOpen}
+        onClose={closeGuide}
+        selectedName={guideKind}
+        onSelect={setGuideKind}
+        onLoadSnippet={handleLoadSnippet}
+      />
+
+      {/* Split layout: Editor left, Tree right (and Transform, when open) */}
       <div style={{ display: "flex", flex: 1, overflow: "hidden" }}>
         {/* Left half: Code Editor */}
         <div
-          className="paper-layer"
+          className="paper-layer no-print"
           style={{
-            width: "50%",
+            flex: 1,
+            minWidth: 0,
             padding: "var(--space-lg)",
             display: "flex",
             flexDirection: "column",
@@ -127,28 +647,95 @@ function App() {
         >
           {/* Example selector dropdown */}
           <CustomSelect
-            label="Preset Examples:"
+            label={specimens.length > 0 ? "Examples & Specimens:" : "Preset Examples:"}
             value={selectedExample}
             onChange={handleExampleChange}
             options={[
-              ...examples.map((ex) => ({ value: ex.name, label: ex.name })),
+              ...examples.map((ex) => ({
+                value: ex.name,
+                label: ex.name,
+                group: specimens.length > 0 ? "Preset Examples" : undefined,
+              })),
+              ...specimens.map((specimen) => ({
+                value: SPECIMEN_PREFIX + specimen.id,
+                label: specimen.name,
+                group: "My Specimens",
+                detail: specimen.tags.map((tag) => `#${tag}`).join(" "),
+              })),
               ...(selectedExample === "Custom"
                 ? [{ value: "Custom", label: "Custom" }]
                 : []),
             ]}
           />
 
+          {/* Save the editor's code, manage saved specimens */}
+          <SpecimenLibrary
+            specimens={specimens}
+            selectedId={
+              selectedExample.startsWith(SPECIMEN_PREFIX)
+                ? selectedExample.slice(SPECIMEN_PREFIX.length)
+                : null
+            }
+            onSave={handleSpecimenSave}
+            onLoad={(specimen) => handleExampleChange(SPECIMEN_PREFIX + specimen.id)}
+            onUpdate={library.update}
+            onRemove={handleSpecimenRemove}
+            onImport={library.importJson}
+            onExport={library.exportJson}
+            storageError={library.storageError}
+          />
+
+          {/* Parser settings: language mode, target, module detection */}
+          <ParseOptionsControl
+            options={parseOptions}
+            onChange={setParseOptions}
+          />
+
           <CodeEditor
             value={sourceCode}
             onChange={handleCodeChange}
-            hoveredNode={hoveredNode}
+            language={parseOptions.language}
+            hoveredRange={hoveredRange}
+            selectedNode={selectedNode}
+            referenceRanges={references?.ranges}
+            matchRanges={matches?.ranges}
+            scrollToSelection={selection?.kind === "node"}
+            onCursorChange={handleCursorChange}
           />
+
+          {/* Compare mode: the second version, diffed against the first */}
+          {vizMode === "compare" && (
+            <>
+              <div style={{ marginTop: "var(--space-md)" }}>
+                <CustomSelect
+                  label="Compare With:"
+                  value={compareExample}
+                  onChange={handleCompareExampleChange}
+                  options={[
+                    ...examples.map((ex) => ({ value: ex.name, label: ex.name })),
+                    ...(compareExample === "Custom"
+                      ? [{ value: "Custom", label: "Custom" }]
+                      : []),
+                  ]}
+                />
+              </div>
+              <CodeEditor
+                value={compareCode}
+                label="Compare Code:"
+                onChange={handleCompareCodeChange}
+                language={parseOptions.language}
+                hoveredRange={compareHoveredRange}
+              />
+            </>
+          )}
         </div>
 
-        {/* Right half: Visualization */}
+        {/* Right half: Visualization (printed as the specimen plate) */}
         <div
+          className="specimen-plate"
           style={{
-            width: "50%",
+            flex: 1,
+            minWidth: 0,
             padding: "var(--space-lg)",
             display: "flex",
             flexDirection: "column",
@@ -160,28 +747,163 @@ function App() {
           <div
             style={{
               marginBottom: "var(--space-md)",
-              alignSelf: "flex-start",
+              display: "flex",
+              alignItems: "center",
+              gap: "var(--space-md)",
             }}
           >
             <SegmentedControl
-              options={["Nodes", "Rings"]}
+              options={["Nodes", "Rings", "Radial", "Tokens", "Scopes", "Stats", "Compare"]}
               selected={vizMode}
-              onChange={(mode) => setVizMode(mode as "nodes" | "rings")}
+              onChange={(mode) => setVizMode(mode as VizMode)}
             />
+            <button
+              type="button"
+              className={`field-button${showInspector ? " active" : ""}`}
+              aria-pressed={showInspector}
+              onClick={() => setShowInspector(!showInspector)}
+              title="Show every field, flag and range of the selected node"
+            >
+              Inspector
+            </button>
+            <button
+              type="button"
+              className={`field-button${showReuse ? " active" : ""}`}
+              aria-pressed={showReuse}
+              onClick={() => setShowReuse(!showReuse)}
+              title="Show which nodes the last reparse reused and which it rebuilt"
+            >
+              Reparse overlay
+            </button>
+            <button
+              type="button"
+              className={`field-button${showTransform ? " active" : ""}`}
+              aria-pressed={showTransform}
+              onClick={() => setShowTransform(!showTransform)}
+              title="Run a TypeScript transformer over the code and print the result"
+            >
+              Transform
+            </button>
+            <button
+              type="button"
+              className={`field-button${showExport ? " active" : ""}`}
+              aria-pressed={showExport}
+              onClick={() => setShowExport(!showExport)}
+              title="Export the tree as JSON or a diagram, or this view as SVG, PNG or a printed plate"
+            >
+              Export
+            </button>
+            {showReuse && parseResult?.success && (
+              <span className="specimen-label">
+                {parseResult.reparse.incremental
+                  ? `Incremental: ${parseResult.reparse.reusedNodes} of ${parseResult.reparse.totalNodes} nodes reused`
+                  : `Full parse: ${parseResult.reparse.totalNodes} nodes built`}
+              </span>
+            )}
+            {isParsing && parseResult !== null && (
+              <span className="specimen-label" style={{ fontStyle: "italic" }}>
+                Parsing…
+              </span>
+            )}
+          </div>
+
+          {/* Serialize the tree: TypeScript-shaped or ESTree JSON */}
+          {showExport && (
+            <ExportPanel
+              onExport={(options) => runQuery("exportAst", options)}
+              getVisualization={getVisualization}
+              viewName={vizMode}
+              hierarchy={parseResult?.success ? parseResult.hierarchy : null}
+            />
+          )}
+
+          {/* Only printed: the plate's label and the full source */}
+          <div className="plate-caption">
+            <h2>{plateTitle}</h2>
+            <p>
+              {languageModes[parseOptions.language].label} · {vizMode} view
+              {parseResult?.success && ` · ${parseResult.reparse.totalNodes} nodes`} ·{" "}
+              {new Date().toLocaleDateString()}
+            </p>
+            <pre>{sourceCode}</pre>
           </div>
 
+          {/* Selector query over the tree */}
+          <QueryBar
+            query={query}
+            onQueryChange={setQuery}
+            result={queryResult}
+            currentIndex={matchIndex}
+            onStep={handleMatchStep}
+          />
+
           {/* Viz container */}
-          <div style={{ flex: 1, display: "flex", overflow: "hidden" }}>
-            {parseResult.success ? (
+          <div ref={figureRef} className="plate-figure" style={{ flex: 1, display: "flex", overflow: "hidden" }}>
+            {parseResult === null ? (
+              <p className="specimen-label" style={{ fontStyle: "italic" }}>
+                Parsing specimen…
+              </p>
+            ) : parseResult.success ? (
               vizMode === "nodes" ? (
                 <ASTNodes
-                  ast={parseResult.ast}
-                  onNodeHover={setHoveredNode}
+                  tree={parseResult.tree}
+                  selectedPath={selectedNode?.path ?? null}
+                  onNodeHover={setHoveredPath}
+                  onNodeSelect={handleNodeSelect}
+                  showReuse={showReuse}
+                  onRangeHover={setHoveredSpan}
+                  referencePaths={references?.paths}
+                  matchPaths={matches?.paths}
+                  onKindInfo={handleKindInfo}
                 />
-              ) : (
+              ) : vizMode === "rings" ? (
                 <RingsVisualization
-                  ast={parseResult.ast}
-                  onNodeHover={setHoveredNode}
+                  hierarchy={parseResult.hierarchy}
+                  selectedPath={selectedNode?.path ?? null}
+                  onNodeHover={setHoveredPath}
+                  onNodeSelect={handleNodeSelect}
+                  showReuse={showReuse}
+                  matchPaths={matches?.paths}
+                />
+              ) : vizMode === "radial" ? (
+                <RadialTreeVisualization
+                  hierarchy={parseResult.hierarchy}
+                  selectedPath={selectedNode?.path ?? null}
+                  onNodeHover={setHoveredPath}
+                  onNodeSelect={handleNodeSelect}
+                  showReuse={showReuse}
+                />
+              ) : vizMode === "compare" ? (
+                <CompareView
+                  before={parseResult}
+                  afterCode={compareCode}
+                  options={parseOptions}
+                  onRangeHover={handleCompareRangeHover}
+                />
+              ) : vizMode === "stats" ? (
+                <StatsView
+                  stats={stats}
+                  selector={query}
+                  onSelectorChange={setQuery}
+                  onFunctionSelect={handleNodeSelect}
+                  onRangeHover={setHoveredSpan}
+                  onExport={() => stats && downloadFile("arbor-stats.csv", treeStatsToCsv(stats), "text/csv")}
+                />
+              ) : vizMode === "scopes" ? (
+                <ScopesView
+                  scopes={parseResult.scopes}
+                  selectedBinding={selectedBinding}
+                  onBindingSelect={handleBindingSelect}
+                  onRangeHover={setHoveredSpan}
+                />
+              ) : (
+                <TokenStream
+                  tokens={parseResult.tokens}
+                  selectedRange={selectedRange}
+                  onTokenHover={(token) =>
+                    setHoveredSpan(token && { from: token.start, to: token.end })
+                  }
+                  onTokenSelect={handleTokenSelect}
                 />
               )
             ) : (
@@ -209,22 +931,48 @@ function App() {
                 >
                   {parseResult.error}
                 </span>
-                {parseResult.line && parseResult.column && (
-                  <div
-                    style={{
-                      marginTop: "var(--space-sm)",
-                      fontSize: "0.875rem",
-                      color: "var(--ink-faded)",
-                      fontFamily: "var(--font-mono)",
-                    }}
-                  >
-                    Line {parseResult.line}, Column {parseResult.column}
-                  </div>
-                )}
               </div>
             )}
           </div>
+
+          {/* Fields, flags and ranges of the selected node */}
+          {inspected && (
+            <NodeInspector
+              details={inspected}
+              typeInfo={typeInfo}
+              onNodeHover={setHoveredPath}
+              onNodeSelect={handleNodeSelect}
+              onRangeHover={setHoveredSpan}
+              onKindInfo={handleKindInfo}
+            />
+          )}
+
+          {/* Syntax errors the parser recovered from, and type errors */}
+          {parseResult?.success && (
+            <DiagnosticsPanel
+              diagnostics={parseResult.diagnostics}
+              semanticDiagnostics={semanticDiagnostics}
+            />
+          )}
         </div>
+
+        {/* Third pane: transformer, printed output and its tree */}
+        {showTransform && (
+          <div
+            className="paper-layer no-print"
+            style={{
+              flex: 1,
+              minWidth: 0,
+              padding: "var(--space-lg)",
+              display: "flex",
+              flexDirection: "column",
+              overflow: "hidden",
+              borderLeft: "2px solid var(--paper-stained)",
+            }}
+          >
+            <TransformPane sourceCode={sourceCode} options={parseOptions} />
+          </div>
+        )}
       </div>
     </div>
   );
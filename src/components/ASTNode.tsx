@@ -1,9 +1,17 @@
 import * as ts from 'typescript';
 import { getNodeTypeName } from '../utils/parser';
+import { SyntaxTreeNode } from '../utils/syntaxTree';
+import { DiffStatus } from '../utils/treeDiff';
 
 interface ASTNodeProps {
-  node: ts.Node;
-  onHover?: (node: ts.Node | null) => void;
+  node: SyntaxTreeNode;
+  onHover?: (path: string | null) => void;
+  onSelect?: (path: string) => void;
+  isSelected?: boolean;
+  showReuse?: boolean; // Tint by whether the last reparse reused this node
+  isReference?: boolean; // Bound to the same declaration as the selected identifier
+  isMatch?: boolean; // Matched by the query bar
+  diffStatus?: DiffStatus; // Compare mode: how this node changed
 }
 
 /**
@@ -27,7 +35,7 @@ interface ASTNodeProps {
  * codebase without accidentally changing strings that contain "x" or comments
  * that mention "x". The AST knows which "x" is the variable you care about.
  */
-export function ASTNode({ node, onHover }: ASTNodeProps) {
+export function ASTNode({ node, onHover, onSelect, isSelected = false, showReuse = false, isReference = false, isMatch = false, diffStatus }: ASTNodeProps) {
   const typeName = getNodeTypeName(node.kind);
 
   // Extract interesting properties to display
@@ -35,31 +43,27 @@ export function ASTNode({ node, onHover }: ASTNodeProps) {
   let valueColor = 'var(--ink-fresh)';
 
   // Show the actual value for literals
-  if (ts.isIdentifier(node)) {
+  if (node.kind === ts.SyntaxKind.Identifier) {
     displayValue = `: ${node.text}`;
-    // Check if this identifier is a function name (parent is FunctionDeclaration/Expression/ArrowFunction)
-    if (node.parent) {
-      const parent = node.parent;
-      if (
-        ts.isFunctionDeclaration(parent) ||
-        ts.isFunctionExpression(parent) ||
-        ts.isArrowFunction(parent) ||
-        ts.isMethodDeclaration(parent)
-      ) {
-        // Check if this identifier is the name property of the function
-        if ((parent as any).name === node) {
-          valueColor = 'var(--ochre)'; // Function names → ochre (yellow)
-        }
-      }
+    // Function names (the name of a FunctionDeclaration/Expression/ArrowFunction/Method)
+    if (node.isFunctionName) {
+      valueColor = 'var(--ochre)'; // Function names → ochre (yellow)
     }
-  } else if (ts.isStringLiteral(node)) {
+  } else if (node.kind === ts.SyntaxKind.StringLiteral) {
     displayValue = `: "${node.text}"`;
     valueColor = 'var(--indigo)'; // Strings → indigo
-  } else if (ts.isNumericLiteral(node)) {
+  } else if (node.kind === ts.SyntaxKind.NumericLiteral) {
     displayValue = `: ${node.text}`;
     valueColor = 'var(--verdigris)'; // Numbers → verdigris
   }
 
+  // Placeholders from error recovery have no source text to show
+  const isMissing = !!node.isMissing;
+  if (isMissing) {
+    displayValue = ' (missing)';
+    valueColor = 'var(--vermillion)';
+  }
+
   // Color statement node type labels (keywords/control flow/operators/TypeScript)
   let typeNameColor = 'var(--ink-fresh)';
   let typeNameWeight: 'normal' | '600' = 'normal';
@@ -126,11 +130,25 @@ export function ASTNode({ node, onHover }: ASTNodeProps) {
     typeNameWeight = '600'; // Bold type keywords
   }
 
+  const className = [
+    'ast-node',
+    isMissing && 'missing',
+    showReuse && (node.isReused ? 'reused' : 'rebuilt'),
+    isSelected && 'highlighted',
+    isReference && !isSelected && 'reference',
+    isMatch && !isSelected && 'match',
+    diffStatus && `diff-${diffStatus}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
   return (
     <div
-      className="ast-node"
-      onMouseEnter={() => onHover?.(node)}
+      className={className}
+      title={isMissing ? 'Synthesized by the parser during error recovery' : undefined}
+      onMouseEnter={() => onHover?.(node.path)}
       onMouseLeave={() => onHover?.(null)}
+      onClick={() => onSelect?.(node.path)}
     >
       <strong style={{ color: typeNameColor, fontWeight: typeNameWeight }}>{typeName}</strong>
       {displayValue && <span className="ast-node-value" style={{ color: valueColor }}>{displayValue}</span>}
@@ -1,9 +1,145 @@
-import * as ts from "typescript";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { ASTNode } from "./ASTNode";
+import { SyntaxTreeNode } from "../utils/syntaxTree";
+import { CommentInfo } from "../utils/comments";
+import { HighlightRange } from "../utils/editorHighlights";
+import { DiffStatus } from "../utils/treeDiff";
+import { getNodeTypeName } from "../utils/parser";
+import { guideEntriesByName } from "../utils/syntaxKindGuide";
 
 interface ASTNodesProps {
-  ast: ts.SourceFile;
-  onNodeHover?: (node: ts.Node | null) => void;
+  tree: SyntaxTreeNode;
+  selectedPath?: string | null;
+  onNodeHover?: (path: string | null) => void;
+  onNodeSelect?: (path: string) => void;
+  showReuse?: boolean; // Reparse overlay: reused vs rebuilt nodes
+  onRangeHover?: (range: HighlightRange | null) => void; // Comments and NodeArrays
+  referencePaths?: ReadonlySet<string>; // Identifiers bound to the selected one's declaration
+  matchPaths?: ReadonlySet<string>; // Nodes matched by the query bar
+  diffStatus?: ReadonlyMap<string, DiffStatus>; // Compare mode: how each node changed
+  onKindInfo?: (kindName: string) => void; // Open the field guide at a node's kind
+}
+
+// Every row has the same height so the visible window can be computed
+// from the scroll offset alone, without measuring the DOM
+const ROW_HEIGHT = 64;
+const INDENT = 40;
+const OVERSCAN = 8; // Extra rows rendered above/below the viewport
+
+/**
+ * A node's children, with the elements of each list-valued field
+ * (statements, parameters, arguments) gathered into a NodeArray group.
+ */
+type ChildEntry =
+  | { type: "node"; node: SyntaxTreeNode }
+  | { type: "array"; key: string; field: string; items: SyntaxTreeNode[] };
+
+// Same key the hierarchy uses for its NodeArray pseudo-nodes
+function nodeArrayKey(parentPath: string, field: string): string {
+  return `${parentPath}#${field}`;
+}
+
+function groupChildren(node: SyntaxTreeNode): ChildEntry[] {
+  const entries: ChildEntry[] = [];
+
+  for (const child of node.children) {
+    const last = entries[entries.length - 1];
+    if (child.fieldIndex === undefined || child.field === undefined) {
+      entries.push({ type: "node", node: child });
+    } else if (last?.type === "array" && last.field === child.field && child.fieldIndex > 0) {
+      last.items.push(child);
+    } else {
+      entries.push({
+        type: "array",
+        key: nodeArrayKey(node.path, child.field),
+        field: child.field,
+        items: [child],
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * One visible line of the flattened tree: a node, or the NodeArray that
+ * holds a run of its siblings. Rows are keyed by node path (child indices
+ * from the root) or NodeArray key, which is also how expansion state is
+ * remembered across re-parses.
+ */
+type TreeRow =
+  | { type: "node"; key: string; node: SyntaxTreeNode; depth: number }
+  | { type: "array"; key: string; field: string; items: SyntaxTreeNode[]; depth: number };
+
+/**
+ * Depth-first walk that emits a row per node and NodeArray, skipping the
+ * subtrees of collapsed rows.
+ */
+function flattenTree(root: SyntaxTreeNode, collapsed: ReadonlySet<string>): TreeRow[] {
+  const rows: TreeRow[] = [];
+
+  const visit = (node: SyntaxTreeNode, depth: number) => {
+    rows.push({ type: "node", key: node.path, node, depth });
+
+    if (collapsed.has(node.path)) return;
+    for (const entry of groupChildren(node)) {
+      if (entry.type === "node") {
+        visit(entry.node, depth + 1);
+      } else {
+        rows.push({ ...entry, depth: depth + 1 });
+        if (!collapsed.has(entry.key)) {
+          entry.items.forEach((item) => visit(item, depth + 2));
+        }
+      }
+    }
+  };
+
+  visit(root, 0);
+  return rows;
+}
+
+/**
+ * Keys of every foldable row at or below the given depth -
+ * collapsing these leaves the tree expanded down to that depth.
+ * Depth counts nodes only: a NodeArray row opens along with the node
+ * that owns it, so its items sit one level below that node.
+ */
+function collectCollapsible(root: SyntaxTreeNode, fromDepth: number): Set<string> {
+  const keys = new Set<string>();
+
+  const visit = (node: SyntaxTreeNode, depth: number) => {
+    if (node.children.length > 0 && depth >= fromDepth) keys.add(node.path);
+    for (const entry of groupChildren(node)) {
+      if (entry.type === "node") {
+        visit(entry.node, depth + 1);
+      } else {
+        if (depth >= fromDepth) keys.add(entry.key);
+        entry.items.forEach((item) => visit(item, depth + 1));
+      }
+    }
+  };
+
+  visit(root, 0);
+  return keys;
+}
+
+/**
+ * Keys of the rows that have to be unfolded for a node to show: its
+ * ancestors, and the NodeArrays along the way.
+ */
+function getRevealKeys(root: SyntaxTreeNode, path: string): string[] {
+  const keys: string[] = [];
+  let node: SyntaxTreeNode | undefined = root;
+
+  for (const part of path === "" ? [] : path.split(".")) {
+    keys.push(node.path);
+    const child: SyntaxTreeNode | undefined = node.children[Number(part)];
+    if (!child) break;
+    if (child.fieldIndex !== undefined && child.field !== undefined) {
+      keys.push(nodeArrayKey(node.path, child.field));
+    }
+    node = child;
+  }
+  return keys;
 }
 
 /**
@@ -12,8 +148,8 @@ interface ASTNodesProps {
  * PARSING INSIGHT: Tree Traversal
  * ================================
  * The AST is a recursive data structure - nodes contain nodes contain nodes.
- * To render it, we use recursive rendering: a component that renders itself
- * for each child.
+ * To render it, we walk it depth-first: visit a node, then each of its
+ * children in order, skipping any branch you've folded away.
  *
  * This mirrors how developer tools traverse the tree:
  * - Visit a node
@@ -29,71 +165,360 @@ interface ASTNodesProps {
  * - Static analysis: "Visit every CallExpression, check for security issues"
  *
  * Every tool follows this pattern: Parse → Traverse → Transform/Analyze
+ *
+ * A real module has tens of thousands of nodes, so the walk produces a flat
+ * list of rows and only the rows scrolled into view are put in the DOM.
  */
-export function ASTNodes({ ast, onNodeHover }: ASTNodesProps) {
+export function ASTNodes({
+  tree,
+  selectedPath = null,
+  onNodeHover,
+  onNodeSelect,
+  showReuse = false,
+  onRangeHover,
+  referencePaths,
+  matchPaths,
+  diffStatus,
+  onKindInfo,
+}: ASTNodesProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [expandDepth, setExpandDepth] = useState(3);
+  const [showComments, setShowComments] = useState(false);
+
+  // Collapsed row keys. Everything else is expanded, so code you type
+  // shows up open, and folds stay put while the paths above them match.
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(() => new Set());
+
+  const rows = useMemo(() => flattenTree(tree, collapsed), [tree, collapsed]);
+
+  const toggle = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // Track the viewport size so we know how many rows fit
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Reveal a newly selected node: unfold its ancestors, then scroll to its
+  // row once it exists. Only runs when the selection moves, so folding a
+  // branch that contains the selection doesn't spring it back open.
+  const pendingScrollRef = useRef<string | null>(null);
+  const treeRef = useRef(tree);
+
+  useEffect(() => {
+    treeRef.current = tree;
+  }, [tree]);
+
+  useEffect(() => {
+    if (selectedPath === null) return;
+
+    const ancestors = getRevealKeys(treeRef.current, selectedPath);
+    setCollapsed((current) =>
+      ancestors.some((key) => current.has(key))
+        ? new Set([...current].filter((key) => !ancestors.includes(key)))
+        : current,
+    );
+    pendingScrollRef.current = selectedPath;
+  }, [selectedPath]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const path = pendingScrollRef.current;
+    if (!container || path === null) return;
+
+    const index = rows.findIndex((row) => row.type === "node" && row.node.path === path);
+    if (index === -1) return;
+    pendingScrollRef.current = null;
+
+    const rowTop = index * ROW_HEIGHT;
+    const isVisible =
+      rowTop >= container.scrollTop &&
+      rowTop + ROW_HEIGHT <= container.scrollTop + container.clientHeight;
+    if (!isVisible) {
+      container.scrollTo({
+        top: rowTop - container.clientHeight / 2 + ROW_HEIGHT / 2,
+        behavior: "smooth",
+      });
+    }
+  }, [rows, selectedPath]);
+
+  // Only the rows in (or just around) the viewport are rendered
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN,
+  );
+  const visibleRows = rows.slice(firstIndex, lastIndex);
+
   return (
-    <div className="tree-container" style={{
+    <div style={{
       width: "100%",
       height: "100%",
-      overflowY: "auto",
-      overflowX: "auto",
-      boxSizing: "border-box",
+      display: "flex",
+      flexDirection: "column",
+      gap: "var(--space-sm)",
     }}>
-      <div style={{ minWidth: "max-content" }}>
-        <TreeNode
-          node={ast}
-          onNodeHover={onNodeHover}
+      {/* Folding controls */}
+      <div className="tree-toolbar">
+        <label className="specimen-label" htmlFor="expand-depth">
+          Expand to depth
+        </label>
+        <input
+          id="expand-depth"
+          type="number"
+          min={1}
+          value={expandDepth}
+          onChange={(e) => setExpandDepth(Math.max(1, Number(e.target.value) || 1))}
+          className="field-input"
+          style={{ width: "4rem" }}
         />
+        <button
+          type="button"
+          className="field-button"
+          onClick={() => setCollapsed(collectCollapsible(tree, expandDepth))}
+        >
+          Apply
+        </button>
+        <button
+          type="button"
+          className="field-button"
+          onClick={() => setCollapsed(new Set())}
+        >
+          Expand all
+        </button>
+        <button
+          type="button"
+          className="field-button"
+          onClick={() => setCollapsed(collectCollapsible(tree, 0))}
+        >
+          Collapse all
+        </button>
+        <button
+          type="button"
+          className={`field-button${showComments ? " active" : ""}`}
+          aria-pressed={showComments}
+          onClick={() => setShowComments(!showComments)}
+          title="Show the comments and JSDoc each node owns"
+        >
+          Comments
+        </button>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="tree-container"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        style={{
+          width: "100%",
+          flex: 1,
+          minHeight: 0,
+          overflowY: "auto",
+          overflowX: "auto",
+          boxSizing: "border-box",
+        }}
+      >
+        <div style={{ minWidth: "max-content" }}>
+          {/* Spacers stand in for the rows that aren't rendered */}
+          <div style={{ height: firstIndex * ROW_HEIGHT }} />
+
+          {visibleRows.map((row) => (
+            <TreeRowView
+              key={row.key}
+              row={row}
+              isExpanded={!collapsed.has(row.key)}
+              isSelected={row.type === "node" && row.node.path === selectedPath}
+              isReference={row.type === "node" && !!referencePaths?.has(row.node.path)}
+              isMatch={row.type === "node" && !!matchPaths?.has(row.node.path)}
+              diffStatus={row.type === "node" ? diffStatus?.get(row.node.path) : undefined}
+              onToggle={toggle}
+              onNodeHover={onNodeHover}
+              onNodeSelect={onNodeSelect}
+              showReuse={showReuse}
+              showComments={showComments}
+              onRangeHover={onRangeHover}
+              onKindInfo={onKindInfo}
+            />
+          ))}
+
+          <div style={{ height: (rows.length - lastIndex) * ROW_HEIGHT }} />
+        </div>
       </div>
     </div>
   );
 }
 
-interface TreeNodeProps {
-  node: ts.Node;
-  onNodeHover?: (node: ts.Node | null) => void;
+interface TreeRowViewProps {
+  row: TreeRow;
+  isExpanded: boolean;
+  isSelected: boolean;
+  isReference: boolean;
+  isMatch: boolean;
+  diffStatus?: DiffStatus;
+  onToggle: (key: string) => void;
+  onNodeHover?: (path: string | null) => void;
+  onNodeSelect?: (path: string) => void;
+  showReuse: boolean;
+  showComments: boolean;
+  onRangeHover?: (range: HighlightRange | null) => void;
+  onKindInfo?: (kindName: string) => void;
 }
 
 /**
- * Recursive TreeNode component
- * Each node renders itself and all its children
+ * A single row: indentation guides for each ancestor, a fold toggle for
+ * rows with children, the name of the parent field it sits in, then the
+ * node itself and any comments it owns (or the NodeArray placeholder)
  */
-function TreeNode({ node, onNodeHover }: TreeNodeProps) {
-  // Collect children
-  const children: ts.Node[] = [];
-  ts.forEachChild(node, (child) => {
-    children.push(child);
-  });
+function TreeRowView({
+  row,
+  isExpanded,
+  isSelected,
+  isReference,
+  isMatch,
+  diffStatus,
+  onToggle,
+  onNodeHover,
+  onNodeSelect,
+  showReuse,
+  showComments,
+  onRangeHover,
+  onKindInfo,
+}: TreeRowViewProps) {
+  // One vertical ink line per ancestor, like the nested borders it replaces
+  const guides = Array.from({ length: row.depth }, (_, i) => i);
+  const hasChildren = row.type === "array" || row.node.children.length > 0;
+
+  // Array elements are labelled by index - the NodeArray row above names the field
+  const fieldLabel =
+    row.type === "array"
+      ? row.field
+      : row.node.fieldIndex !== undefined
+        ? `[${row.node.fieldIndex}]`
+        : row.node.field;
+  const kindName = row.type === "node" ? getNodeTypeName(row.node.kind) : "";
 
   return (
-    <div className="tree-node" style={{ display: "flex", flexDirection: "column", gap: "var(--space-sm)" }}>
-      {/* Render this node */}
-      <ASTNode
-        node={node}
-        onHover={onNodeHover}
-      />
-
-      {/* Recursively render children with indentation */}
-      {children.length > 0 && (
+    <div
+      className="tree-row"
+      style={{
+        height: ROW_HEIGHT,
+        display: "flex",
+        alignItems: "center",
+        gap: "var(--space-xs)",
+        paddingLeft: row.depth * INDENT,
+        backgroundImage: guides
+          .map(() => "linear-gradient(var(--ink-light), var(--ink-light))")
+          .join(", "),
+        backgroundSize: "2px 100%",
+        backgroundPosition: guides.map((i) => `${i * INDENT + 12}px 0`).join(", "),
+        backgroundRepeat: "no-repeat",
+      }}
+    >
+      <button
+        type="button"
+        className="tree-toggle"
+        aria-label={isExpanded ? "Collapse" : "Expand"}
+        aria-expanded={hasChildren ? isExpanded : undefined}
+        onClick={() => onToggle(row.key)}
+        style={{ visibility: hasChildren ? "visible" : "hidden" }}
+      >
+        {isExpanded ? "▾" : "▸"}
+      </button>
+
+      {fieldLabel && <span className="field-label">{fieldLabel}</span>}
+
+      {row.type === "array" ? (
         <div
-          style={{
-            marginLeft: "2rem",
-            paddingLeft: "var(--space-md)",
-            borderLeft: "2px solid var(--ink-light)",
-            display: "flex",
-            flexDirection: "column",
-            gap: "var(--space-sm)",
-          }}
+          className="ast-node node-array"
+          title="A NodeArray: the list held in one field of the parent"
+          onMouseEnter={() =>
+            onRangeHover?.({ from: row.items[0].start, to: row.items[row.items.length - 1].end })
+          }
+          onMouseLeave={() => onRangeHover?.(null)}
         >
-          {children.map((child, index) => (
-            <TreeNode
-              key={`${child.kind}-${child.pos}-${index}`}
-              node={child}
-              onNodeHover={onNodeHover}
-            />
-          ))}
+          <strong>NodeArray</strong>
+          <span className="ast-node-value">
+            [{row.items.length}]
+          </span>
         </div>
+      ) : (
+        <>
+          <ASTNode
+            node={row.node}
+            onHover={onNodeHover}
+            onSelect={onNodeSelect}
+            isSelected={isSelected}
+            showReuse={showReuse}
+            isReference={isReference}
+            isMatch={isMatch}
+            diffStatus={diffStatus}
+          />
+
+          {onKindInfo && (
+            <button
+              type="button"
+              className="tree-toggle kind-info"
+              aria-label={`About ${kindName}`}
+              title={guideEntriesByName.get(kindName)?.description.replace(/`/g, "")}
+              onClick={() => onKindInfo(kindName)}
+            >
+              ?
+            </button>
+          )}
+
+          {showComments && row.node.comments?.map((comment) => (
+            <CommentChip key={comment.from} comment={comment} onHover={onRangeHover} />
+          ))}
+        </>
       )}
     </div>
   );
 }
+
+interface CommentChipProps {
+  comment: CommentInfo;
+  onHover?: (range: HighlightRange | null) => void;
+}
+
+/**
+ * A comment pinned to the node it belongs to, like a note on a specimen tag
+ */
+function CommentChip({ comment, onHover }: CommentChipProps) {
+  const summary =
+    comment.kind === "jsdoc"
+      ? [comment.text.split("\n")[0], ...(comment.tags ?? []).map((tag) => `@${tag}`)]
+          .filter(Boolean)
+          .join(" ")
+      : comment.text.replace(/\s+/g, " ");
+
+  return (
+    <span
+      className={`comment-chip ${comment.kind}`}
+      title={comment.kind === "jsdoc" ? comment.text : undefined}
+      onMouseEnter={() => onHover?.({ from: comment.from, to: comment.to })}
+      onMouseLeave={() => onHover?.(null)}
+    >
+      <span className="comment-chip-label">
+        {comment.placement} {comment.kind === "jsdoc" ? "JSDoc" : "comment"}
+      </span>
+      {summary}
+    </span>
+  );
+}
@@ -1,14 +1,52 @@
 import { useEffect, useRef } from 'react';
-import * as ts from 'typescript';
 import { EditorView, basicSetup } from 'codemirror';
-import { EditorState } from '@codemirror/state';
+import { ChangeSet, Compartment, EditorState } from '@codemirror/state';
 import { javascript } from '@codemirror/lang-javascript';
 import { fieldGuide } from '../theme/fieldGuideTheme';
+import { LanguageMode, TextEdit } from '../utils/parser';
+import { editorHighlights, highlightRanges, HighlightRange, nodeRange } from '../utils/editorHighlights';
+import { SyntaxTreeNode } from '../utils/syntaxTree';
 
 interface CodeEditorProps {
   value: string;
-  onChange: (value: string) => void;
-  hoveredNode?: ts.Node | null; // From hovering nodes → highlights code
+  label?: string; // Shown above the editor
+  onChange?: (value: string, edits: TextEdit[]) => void; // Edits let the parser reuse the old tree
+  readOnly?: boolean; // For generated code (fixed when the editor is created)
+  language?: LanguageMode; // Keeps editor highlighting in step with the parser
+  hoveredRange?: HighlightRange | null; // From hovering nodes or tokens → highlights code
+  selectedNode?: SyntaxTreeNode | null; // From clicking nodes or moving the cursor
+  referenceRanges?: HighlightRange[]; // Uses of the selected identifier's binding
+  matchRanges?: HighlightRange[]; // Nodes matched by the query bar
+  scrollToSelection?: boolean; // Bring the selected node into view (tree clicks)
+  onCursorChange?: (position: number) => void; // User moved the cursor
+}
+
+// CodeMirror's JavaScript grammar only knows two switches: JSX and TypeScript
+function languageSupport(language: LanguageMode) {
+  return javascript({
+    jsx: language === 'jsx' || language === 'tsx',
+    typescript: language === 'ts' || language === 'tsx' || language === 'dts',
+  });
+}
+
+/**
+ * Summarize one transaction's changes as a single edit. A ChangeSet can hold
+ * several ranges (multi-cursor typing), all in the old document's
+ * coordinates; the span from the first to the last covers them all.
+ */
+function toTextEdit(changes: ChangeSet): TextEdit | null {
+  let from = -1;
+  let to = 0;
+  let insertEnd = 0;
+
+  // Before the first change both documents line up, so fromA === fromB there
+  changes.iterChangedRanges((fromA, toA, _fromB, toB) => {
+    if (from === -1) from = fromA;
+    to = toA;
+    insertEnd = toB;
+  });
+
+  return from === -1 ? null : { from, to, insertLength: insertEnd - from };
 }
 
 /**
@@ -30,9 +68,30 @@ interface CodeEditorProps {
  * Even the syntax highlighting you see here? That's parsing too.
  * CodeMirror tokenizes each line to know what colors to apply.
  */
-export function CodeEditor({ value, onChange, hoveredNode }: CodeEditorProps) {
+export function CodeEditor({
+  value,
+  label = 'Source Code:',
+  onChange,
+  readOnly = false,
+  language = 'tsx',
+  hoveredRange,
+  selectedNode,
+  referenceRanges,
+  matchRanges,
+  scrollToSelection = false,
+  onCursorChange,
+}: CodeEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
+  const languageCompartment = useRef(new Compartment());
+  const onChangeRef = useRef(onChange);
+  const onCursorChangeRef = useRef(onCursorChange);
+
+  // Keep refs updated with latest callbacks
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onCursorChangeRef.current = onCursorChange;
+  }, [onChange, onCursorChange]);
 
   useEffect(() => {
     if (!editorRef.current) return;
@@ -41,13 +100,27 @@ export function CodeEditor({ value, onChange, hoveredNode }: CodeEditorProps) {
       doc: value,
       extensions: [
         basicSetup,
-        javascript({ typescript: true }), // TypeScript mode handles both JS and TS
+        languageCompartment.current.of(languageSupport(language)),
         fieldGuide, // Field guide theme
+        EditorState.readOnly.of(readOnly),
+        editorHighlights, // Hover/selection marks driven by the visualizations
         EditorView.updateListener.of((update) => {
           // Handle document changes
           if (update.docChanged) {
             const newValue = update.state.doc.toString();
-            onChange(newValue);
+            const edits = update.transactions
+              .map((tr) => toTextEdit(tr.changes))
+              .filter((edit): edit is TextEdit => edit !== null);
+            onChangeRef.current?.(newValue, edits);
+          }
+
+          // Report cursor moves the user made (clicks, arrows, typing),
+          // not ones caused by swapping in a new example
+          const movedByUser = update.transactions.some(
+            (tr) => tr.isUserEvent('select') || tr.isUserEvent('input') || tr.isUserEvent('delete')
+          );
+          if (update.selectionSet && movedByUser) {
+            onCursorChangeRef.current?.(update.state.selection.main.head);
           }
         }),
       ],
@@ -85,34 +158,47 @@ export function CodeEditor({ value, onChange, hoveredNode }: CodeEditorProps) {
     }
   }, [value]);
 
-  // Highlight hovered node (visual only, doesn't move cursor)
-  // When hovering a node, show which code it corresponds to
-  // When leaving a node (hoveredNode becomes null), clear the selection
+  // Swap the highlighting grammar when the parser's language mode changes
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageCompartment.current.reconfigure(languageSupport(language)),
+    });
+  }, [language]);
+
+  // Highlight hovered node or token (visual only, doesn't move cursor)
+  // When hovering, mark which code it corresponds to
+  // When leaving (hoveredRange becomes null), clear the mark
+  useEffect(() => {
+    if (!viewRef.current) return;
+    highlightRanges(viewRef.current, 'hover', hoveredRange ? [hoveredRange] : []);
+  }, [hoveredRange]);
+
+  // Mark the other occurrences of the selected name
+  useEffect(() => {
+    if (!viewRef.current) return;
+    highlightRanges(viewRef.current, 'references', referenceRanges ?? []);
+  }, [referenceRanges]);
+
+  // Mark every query match
   useEffect(() => {
     if (!viewRef.current) return;
+    highlightRanges(viewRef.current, 'matches', matchRanges ?? []);
+  }, [matchRanges]);
+
+  // Mark the selected node, scrolling to it when it was picked in the tree
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    highlightRanges(view, 'selected', selectedNode ? [nodeRange(selectedNode)] : []);
 
-    if (hoveredNode) {
-      const docLength = viewRef.current.state.doc.length;
-
-      // Validate bounds to handle edge cases where document is modified while hovering
-      if (hoveredNode.pos < 0 || hoveredNode.end > docLength) return;
-
-      // Trim leading whitespace from the highlight
-      const text = viewRef.current.state.doc.sliceString(hoveredNode.pos, hoveredNode.end);
-      const leadingWhitespace = text.match(/^\s*/)?.[0].length || 0;
-      const trimmedStart = hoveredNode.pos + leadingWhitespace;
-
-      viewRef.current.dispatch({
-        selection: { anchor: trimmedStart, head: hoveredNode.end },
-      });
-    } else {
-      // Clear selection when no node is hovered
-      const currentPos = viewRef.current.state.selection.main.head;
-      viewRef.current.dispatch({
-        selection: { anchor: currentPos, head: currentPos },
-      });
+    if (selectedNode && scrollToSelection) {
+      const { from } = nodeRange(selectedNode);
+      if (from <= view.state.doc.length) {
+        view.dispatch({ effects: EditorView.scrollIntoView(from, { y: 'center' }) });
+      }
     }
-  }, [hoveredNode]);
+  }, [selectedNode, scrollToSelection]);
 
   return (
     <div style={{
@@ -131,7 +217,7 @@ export function CodeEditor({ value, onChange, hoveredNode }: CodeEditorProps) {
           flexShrink: 0,
         }}
       >
-        Source Code:
+        {label}
       </label>
       <div
         ref={editorRef}
@@ -0,0 +1,178 @@
+import { CSSProperties, useMemo, useState } from 'react';
+import { ASTNodes } from './ASTNodes';
+import { RingsVisualization } from './RingsVisualization';
+import { SegmentedControl } from './SegmentedControl';
+import { useParsedDocument } from '../hooks/useParsedDocument';
+import { ParsedDocument } from '../utils/parseDocument';
+import { getNodeTypeName, ParseOptions } from '../utils/parser';
+import { indexSyntaxTree } from '../utils/syntaxTree';
+import { HighlightRange, nodeRange } from '../utils/editorHighlights';
+import { diffTrees, DiffStatus, KindChangeCount } from '../utils/treeDiff';
+
+export type CompareSide = 'before' | 'after';
+
+interface CompareViewProps {
+  before: ParsedDocument; // The main editor's document
+  afterCode: string; // The second editor's code, parsed here
+  options: ParseOptions;
+  onRangeHover?: (side: CompareSide, range: HighlightRange | null) => void;
+}
+
+const statuses: { status: DiffStatus; label: string; sign: string; color: string }[] = [
+  { status: 'inserted', label: 'Inserted', sign: '+', color: 'var(--verdigris)' },
+  { status: 'deleted', label: 'Deleted', sign: '−', color: 'var(--vermillion)' },
+  { status: 'updated', label: 'Updated', sign: '~', color: 'var(--ochre)' },
+  { status: 'moved', label: 'Moved', sign: '↔', color: 'var(--indigo)' },
+];
+
+const countRowStyle: CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '1fr repeat(4, 4rem)',
+  gap: 'var(--space-sm)',
+  padding: '2px 0',
+  textAlign: 'right',
+};
+
+/**
+ * CompareView Component
+ *
+ * Two versions of the code, diffed as trees (see diffTrees): the main
+ * editor's code on the left, the compare editor's on the right, each shown
+ * as Nodes or Rings with every change coloured. Selecting a node on either
+ * side selects its match on the other, so you can follow a piece of code
+ * from one version to the next.
+ */
+export function CompareView({ before, afterCode, options, onRangeHover }: CompareViewProps) {
+  const { document: after, isParsing } = useParsedDocument(afterCode, options);
+  const [view, setView] = useState<'nodes' | 'rings'>('nodes');
+  const [selection, setSelection] = useState<{ side: CompareSide; path: string } | null>(null);
+
+  const afterDocument = after?.success ? after : null;
+
+  const diff = useMemo(
+    () => (afterDocument ? diffTrees(before.tree, afterDocument.tree) : null),
+    [before, afterDocument],
+  );
+
+  const beforeNodes = useMemo(() => indexSyntaxTree(before.tree), [before]);
+  const afterNodes = useMemo(
+    () => (afterDocument ? indexSyntaxTree(afterDocument.tree) : null),
+    [afterDocument],
+  );
+  const matchedBefore = useMemo(
+    () => new Map([...(diff?.matches ?? [])].map(([from, to]) => [to, from])),
+    [diff],
+  );
+
+  // A selection on one side selects its match on the other
+  const selectedBefore = selection?.side === 'before' ? selection.path : selection ? matchedBefore.get(selection.path) ?? null : null;
+  const selectedAfter = selection?.side === 'after' ? selection.path : selection ? diff?.matches.get(selection.path) ?? null : null;
+
+  const hoverHandler = (side: CompareSide) => (path: string | null) => {
+    const node = path !== null ? (side === 'before' ? beforeNodes : afterNodes)?.get(path) : undefined;
+    onRangeHover?.(side, node ? nodeRange(node) : null);
+  };
+
+  const totals = useMemo(() => {
+    const sums: Record<DiffStatus, number> = { inserted: 0, deleted: 0, updated: 0, moved: 0 };
+    diff?.counts.forEach((count) => statuses.forEach(({ status }) => (sums[status] += count[status])));
+    return sums;
+  }, [diff]);
+
+  const renderSide = (side: CompareSide, document: ParsedDocument) => {
+    const changes = side === 'before' ? diff?.before : diff?.after;
+    const selectedPath = side === 'before' ? selectedBefore : selectedAfter;
+    const onNodeSelect = (path: string) => setSelection({ side, path });
+
+    return (
+      <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        <span className="specimen-label">{side === 'before' ? 'Before (editor)' : 'After (compare editor)'}</span>
+        {view === 'nodes' ? (
+          <ASTNodes
+            tree={document.tree}
+            selectedPath={selectedPath}
+            onNodeHover={hoverHandler(side)}
+            onNodeSelect={onNodeSelect}
+            diffStatus={changes}
+          />
+        ) : (
+          <RingsVisualization
+            hierarchy={document.hierarchy}
+            selectedPath={selectedPath}
+            onNodeHover={hoverHandler(side)}
+            onNodeSelect={onNodeSelect}
+            diffStatus={changes}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)', minHeight: 0 }}>
+      <div className="tree-toolbar">
+        <SegmentedControl options={['Nodes', 'Rings']} selected={view} onChange={(mode) => setView(mode as 'nodes' | 'rings')} />
+        {diff && statuses.map(({ status, label, sign, color }) => (
+          <span key={status} className="specimen-label" style={{ color }}>
+            {sign}{totals[status]} {label.toLowerCase()}
+          </span>
+        ))}
+        {isParsing && (
+          <span className="specimen-label" style={{ fontStyle: 'italic' }}>Parsing…</span>
+        )}
+      </div>
+
+      <div style={{ flex: 1, minHeight: 0, display: 'flex', gap: 'var(--space-md)' }}>
+        {renderSide('before', before)}
+        {afterDocument ? (
+          renderSide('after', afterDocument)
+        ) : (
+          <p className="specimen-label" style={{ flex: 1, fontStyle: 'italic' }}>
+            {after && !after.success ? `Parse Error: ${after.error}` : 'Parsing specimen…'}
+          </p>
+        )}
+      </div>
+
+      {/* What changed, kind by kind */}
+      {diff && diff.counts.length > 0 && (
+        <ChangeCounts counts={diff.counts} />
+      )}
+    </div>
+  );
+}
+
+function ChangeCounts({ counts }: { counts: KindChangeCount[] }) {
+  return (
+    <div
+      className="paper-elevated"
+      style={{
+        padding: 'var(--space-sm) var(--space-md)',
+        border: '2px solid var(--ink-light)',
+        borderRadius: '4px',
+        maxHeight: '30%',
+        overflowY: 'auto',
+        flexShrink: 0,
+        fontFamily: 'var(--font-mono)',
+        fontSize: '0.875rem',
+        color: 'var(--ink-fresh)',
+      }}
+    >
+      <div style={{ ...countRowStyle, fontWeight: 600 }}>
+        <span style={{ textAlign: 'left' }}>SyntaxKind</span>
+        {statuses.map(({ status, sign, color }) => (
+          <span key={status} style={{ color }}>{sign}</span>
+        ))}
+      </div>
+      {counts.map((count) => (
+        <div key={count.kind} style={countRowStyle}>
+          <span style={{ textAlign: 'left' }}>{getNodeTypeName(count.kind)}</span>
+          {statuses.map(({ status }) => (
+            <span key={status} style={{ color: count[status] ? 'var(--ink-fresh)' : 'var(--ink-wash)' }}>
+              {count[status]}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
-import { useState, useRef, useEffect } from 'react';
+import { Fragment, useState, useRef, useEffect } from 'react';
 
 interface CustomSelectProps {
   value: string;
   onChange: (value: string) => void;
-  options: { value: string; label: string }[];
+  options: SelectOption[];
   label: string;
 }
 
+export interface SelectOption {
+  value: string;
+  label: string;
+  group?: string; // Options sharing a group are listed under its heading
+  detail?: string; // Shown faded after the label (a specimen's tags)
+}
+
 export function CustomSelect({ value, onChange, options, label }: CustomSelectProps) {
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -115,36 +122,55 @@ export function CustomSelect({ value, onChange, options, label }: CustomSelectPr
               zIndex: 1000,
             }}
           >
-            {options.map((option) => (
-              <button
-                key={option.value}
-                type="button"
-                onClick={() => {
-                  onChange(option.value);
-                  setIsOpen(false);
-                }}
-                style={{
-                  width: '100%',
-                  padding: '0.618rem',
-                  backgroundColor: option.value === value ? 'var(--paper-aged)' : 'transparent',
-                  color: 'var(--ink-fresh)',
-                  border: 'none',
-                  borderBottom: '1px solid var(--paper-stained)',
-                  cursor: 'pointer',
-                  fontFamily: 'var(--font-mono)',
-                  fontSize: '0.875rem',
-                  textAlign: 'left',
-                  transition: 'background-color var(--duration-quick) var(--ease-natural)',
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = 'var(--paper-weathered)';
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = option.value === value ? 'var(--paper-aged)' : 'transparent';
-                }}
-              >
-                {option.label}
-              </button>
+            {options.map((option, index) => (
+              <Fragment key={option.value}>
+                {option.group && option.group !== options[index - 1]?.group && (
+                  <div
+                    className="specimen-label"
+                    style={{
+                      padding: '0.382rem 0.618rem',
+                      background: 'var(--paper-weathered)',
+                      borderBottom: '1px solid var(--paper-stained)',
+                      fontWeight: 600,
+                    }}
+                  >
+                    {option.group}
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(option.value);
+                    setIsOpen(false);
+                  }}
+                  style={{
+                    width: '100%',
+                    padding: '0.618rem',
+                    backgroundColor: option.value === value ? 'var(--paper-aged)' : 'transparent',
+                    color: 'var(--ink-fresh)',
+                    border: 'none',
+                    borderBottom: '1px solid var(--paper-stained)',
+                    cursor: 'pointer',
+                    fontFamily: 'var(--font-mono)',
+                    fontSize: '0.875rem',
+                    textAlign: 'left',
+                    transition: 'background-color var(--duration-quick) var(--ease-natural)',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = 'var(--paper-weathered)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = option.value === value ? 'var(--paper-aged)' : 'transparent';
+                  }}
+                >
+                  {option.label}
+                  {option.detail && (
+                    <span style={{ marginLeft: '0.5em', color: 'var(--ink-wash)', fontStyle: 'italic' }}>
+                      {option.detail}
+                    </span>
+                  )}
+                </button>
+              </Fragment>
             ))}
           </div>
         )}
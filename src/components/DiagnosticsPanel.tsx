@@ -0,0 +1,93 @@
+import * as ts from 'typescript';
+import { ParseDiagnostic } from '../utils/parser';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ParseDiagnostic[];
+  semanticDiagnostics?: ParseDiagnostic[]; // From the type checker
+}
+
+/**
+ * DiagnosticsPanel Component
+ *
+ * PARSING INSIGHT: Errors Without Failure
+ * ========================================
+ * A fault-tolerant parser never "fails" - it always hands back a tree.
+ * What it also hands back is a list of the places where it had to guess:
+ * a missing ')', an unterminated string, a stray token it skipped over.
+ *
+ * Editors draw these as red squiggles while you type. Here they're listed
+ * as field notes next to the tree, so you can compare what the parser
+ * complained about with the (missing) nodes it invented to keep going.
+ *
+ * Type errors come later, from the checker, and are a different sort of
+ * complaint: "add(1, '2')" parses perfectly well, it just doesn't make sense.
+ */
+export function DiagnosticsPanel({ diagnostics, semanticDiagnostics = [] }: DiagnosticsPanelProps) {
+  if (diagnostics.length === 0 && semanticDiagnostics.length === 0) return null;
+
+  return (
+    <div
+      className="paper-elevated"
+      style={{
+        marginTop: 'var(--space-md)',
+        padding: 'var(--space-sm) var(--space-md)',
+        border: '2px solid var(--vermillion)',
+        borderRadius: '4px',
+        maxHeight: '30%',
+        overflowY: 'auto',
+        flexShrink: 0,
+      }}
+    >
+      {diagnostics.length > 0 && (
+        <DiagnosticList
+          title={diagnostics.length === 1 ? '1 Parse Error' : `${diagnostics.length} Parse Errors`}
+          diagnostics={diagnostics}
+        />
+      )}
+      {semanticDiagnostics.length > 0 && (
+        <DiagnosticList
+          title={semanticDiagnostics.length === 1 ? '1 Type Error' : `${semanticDiagnostics.length} Type Errors`}
+          diagnostics={semanticDiagnostics}
+        />
+      )}
+    </div>
+  );
+}
+
+function DiagnosticList({ title, diagnostics }: { title: string; diagnostics: ParseDiagnostic[] }) {
+  return (
+    <>
+      <strong
+        style={{
+          display: 'block',
+          color: 'var(--vermillion)',
+          fontFamily: 'var(--font-mono)',
+        }}
+      >
+        {title}
+      </strong>
+
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {diagnostics.map((diagnostic) => (
+          <li
+            key={`${diagnostic.code}-${diagnostic.start}`}
+            style={{
+              marginTop: 'var(--space-xs)',
+              fontFamily: 'var(--font-mono)',
+              fontSize: '0.875rem',
+              color: 'var(--ink-fresh)',
+            }}
+          >
+            <span style={{ color: 'var(--ink-faded)' }}>
+              Line {diagnostic.line}, Column {diagnostic.column}
+            </span>{' '}
+            <span style={{ color: 'var(--vermillion)' }}>
+              {ts.DiagnosticCategory[diagnostic.category]} TS{diagnostic.code}:
+            </span>{' '}
+            {diagnostic.message}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { HierarchyNode } from "../utils/astToHierarchy";
+import { DiagramFormat, hierarchyToDiagram } from "../utils/diagramExport";
+import { downloadFile } from "../utils/download";
+import { colors } from "../theme/botanical";
+
+interface DiagramExportProps {
+  hierarchy: HierarchyNode | null; // null while there's no tree
+}
+
+const formats: { value: DiagramFormat; label: string; fileName: string }[] = [
+  { value: "dot", label: "Graphviz DOT", fileName: "arbor-ast.dot" },
+  { value: "mermaid", label: "Mermaid", fileName: "arbor-ast.mmd" },
+];
+
+// Wait for a pause in editing before laying the preview out again
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// The renderers are big, so they're only fetched once a preview is shown
+type Viz = Awaited<ReturnType<typeof import("@viz-js/viz").instance>>;
+type Mermaid = typeof import("mermaid").default;
+
+let vizPromise: Promise<Viz> | null = null;
+let mermaidPromise: Promise<Mermaid> | null = null;
+let mermaidRenderCount = 0;
+
+function loadViz(): Promise<Viz> {
+  vizPromise ??= import("@viz-js/viz").then((module) => module.instance());
+  return vizPromise;
+}
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: "strict",
+      theme: "base",
+      themeVariables: {
+        background: colors.paper.pristine,
+        primaryColor: colors.paper.aged,
+        primaryBorderColor: colors.ink.light,
+        primaryTextColor: colors.ink.fresh,
+        lineColor: colors.ink.wash,
+        fontFamily: "Inconsolata, 'Courier New', monospace",
+      },
+    });
+    return mermaid;
+  });
+  return mermaidPromise;
+}
+
+async function renderDiagram(
+  text: string,
+  format: DiagramFormat
+): Promise<{ success: true; svg: string } | { success: false; error: string }> {
+  try {
+    if (format === "dot") {
+      const result = (await loadViz()).render(text, { format: "svg" });
+      return result.status === "success"
+        ? { success: true, svg: result.output }
+        : { success: false, error: result.errors.map((error) => error.message).join("; ") };
+    }
+    const mermaid = await loadMermaid();
+    // Checked first: a failed render leaves its error graphic in the page
+    await mermaid.parse(text);
+    const { svg } = await mermaid.render(`mermaid-preview-${++mermaidRenderCount}`, text);
+    return { success: true, svg };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * DiagramExport Component
+ *
+ * The tree as diagram source for docs and READMEs: Graphviz DOT or a
+ * Mermaid flowchart, cut off at a chosen depth. The preview is drawn by
+ * the real renderers (Graphviz compiled to WebAssembly, Mermaid), so what
+ * it shows is what the pasted text will draw.
+ */
+export function DiagramExport({ hierarchy }: DiagramExportProps) {
+  const [format, setFormat] = useState<DiagramFormat>("mermaid");
+  const [maxDepth, setMaxDepth] = useState(4);
+  const [collapseTokens, setCollapseTokens] = useState(true);
+  const [includeText, setIncludeText] = useState(true);
+  const [showPreview, setShowPreview] = useState(true);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const diagram = useMemo(
+    () => hierarchy && hierarchyToDiagram(hierarchy, { format, maxDepth, collapseTokens, includeText }),
+    [hierarchy, format, maxDepth, collapseTokens, includeText],
+  );
+
+  useEffect(() => {
+    if (!showPreview || !diagram) return;
+
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      setIsRendering(true);
+      renderDiagram(diagram.text, format).then((result) => {
+        if (!isCurrent) return;
+        setIsRendering(false);
+        if (result.success) {
+          setPreviewError(null);
+          if (previewRef.current) previewRef.current.innerHTML = result.svg;
+        } else {
+          setPreviewError(result.error);
+        }
+      });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      // A render still in flight will be ignored, so it can't clear this itself
+      isCurrent = false;
+      clearTimeout(timer);
+      setIsRendering(false);
+    };
+  }, [diagram, format, showPreview]);
+
+  const fileName = formats.find((entry) => entry.value === format)!.fileName;
+
+  return (
+    <div style={{ marginTop: "var(--space-sm)" }}>
+      <div className="tree-toolbar">
+        <span className="specimen-label">Diagram:</span>
+        <select
+          className="field-input"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as DiagramFormat)}
+          aria-label="Diagram format"
+        >
+          {formats.map((entry) => (
+            <option key={entry.value} value={entry.value}>{entry.label}</option>
+          ))}
+        </select>
+        <label className="specimen-label" style={{ display: "flex", alignItems: "center", gap: "var(--space-xs)" }}>
+          Depth
+          <input
+            type="number"
+            className="field-input"
+            min={1}
+            max={50}
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+            style={{ width: "4rem" }}
+          />
+        </label>
+        <label className="specimen-label" style={{ display: "flex", alignItems: "center", gap: "var(--space-xs)" }}>
+          <input type="checkbox" checked={collapseTokens} onChange={(e) => setCollapseTokens(e.target.checked)} />
+          Collapse token leaves
+        </label>
+        <label className="specimen-label" style={{ display: "flex", alignItems: "center", gap: "var(--space-xs)" }}>
+          <input type="checkbox" checked={includeText} onChange={(e) => setIncludeText(e.target.checked)} />
+          Identifier & literal text
+        </label>
+      </div>
+
+      <div className="tree-toolbar" style={{ marginTop: "var(--space-sm)" }}>
+        <button
+          type="button"
+          className="field-button"
+          disabled={!diagram}
+          onClick={() =>
+            diagram &&
+            navigator.clipboard.writeText(diagram.text).then(
+              () => setStatus(`Copied ${diagram.nodeCount} nodes as ${format === "dot" ? "DOT" : "Mermaid"}`),
+              () => setStatus("Couldn't copy - try Download instead"),
+            )
+          }
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          className="field-button"
+          disabled={!diagram}
+          onClick={() => diagram && downloadFile(fileName, diagram.text)}
+        >
+          Download
+        </button>
+        <button
+          type="button"
+          className={`field-button${showPreview ? " active" : ""}`}
+          aria-pressed={showPreview}
+          onClick={() => setShowPreview(!showPreview)}
+        >
+          Preview
+        </button>
+        {diagram && (
+          <span className="specimen-label">
+            {diagram.nodeCount} nodes{diagram.hiddenCount > 0 && `, ${diagram.hiddenCount} below depth ${maxDepth}`}
+          </span>
+        )}
+        {isRendering && (
+          <span className="specimen-label" style={{ fontStyle: "italic" }}>Drawing…</span>
+        )}
+        {status && <span className="specimen-label">{status}</span>}
+      </div>
+
+      {diagram && showPreview && (
+        <div
+          style={{
+            display: "flex",
+            gap: "var(--space-sm)",
+            marginTop: "var(--space-sm)",
+            height: "16rem",
+          }}
+        >
+          <pre
+            className="paper-elevated"
+            style={{
+              flex: 1,
+              minWidth: 0,
+              margin: 0,
+              padding: "var(--space-sm)",
+              overflow: "auto",
+              fontFamily: "var(--font-mono)",
+              fontSize: "0.75rem",
+              color: "var(--ink-brown)",
+              border: "1px solid var(--paper-stained)",
+              borderRadius: "4px",
+            }}
+          >
+            {diagram.text}
+          </pre>
+          <div
+            className="paper-elevated"
+            style={{
+              flex: 1,
+              minWidth: 0,
+              overflow: "auto",
+              padding: "var(--space-sm)",
+              border: "1px solid var(--paper-stained)",
+              borderRadius: "4px",
+              position: "relative",
+            }}
+          >
+            {previewError && (
+              <p className="specimen-label" style={{ color: "var(--vermillion)", margin: 0 }}>
+                Can't draw this diagram: {previewError}
+              </p>
+            )}
+            <div ref={previewRef} style={{ display: previewError ? "none" : "block" }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
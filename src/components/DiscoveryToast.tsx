@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import "./Lexidex.css";
+import { Leximon } from "../utils/leximons";
+
+interface DiscoveryToastProps {
+  discoveries: Leximon[]; // Newly found, oldest first; empty hides the toast
+  onOpen: () => void; // Open the Lexidex
+  onDismiss: () => void;
+}
+
+// Long enough to read a handful of names
+const DISMISS_AFTER_MS = 6000;
+
+// A first parse can turn up dozens at once; the rest are summed up
+const MAX_NAMES = 8;
+
+/**
+ * DiscoveryToast Component
+ *
+ * "You discovered 3 new Leximons!" - announced when a parse turns up kinds
+ * the Lexidex hasn't seen, each name in its rarity's ink. Clicking it
+ * opens the Lexidex; otherwise it clears itself after a few seconds (and
+ * starts over when more arrive while it's up).
+ */
+export function DiscoveryToast({ discoveries, onOpen, onDismiss }: DiscoveryToastProps) {
+  useEffect(() => {
+    if (discoveries.length === 0) return;
+    const timer = setTimeout(onDismiss, DISMISS_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [discoveries, onDismiss]);
+
+  if (discoveries.length === 0) return null;
+
+  const hidden = discoveries.length - MAX_NAMES;
+
+  return (
+    <div
+      className="discovery-toast no-print"
+      role="status"
+      onClick={() => {
+        onOpen();
+        onDismiss();
+      }}
+      title="Open the Lexidex"
+    >
+      <p className="discovery-toast-title">
+        You discovered {discoveries.length} new Leximon{discoveries.length === 1 ? "" : "s"}!
+      </p>
+      <ul className="discovery-toast-names">
+        {discoveries.slice(0, MAX_NAMES).map((leximon) => (
+          <li key={leximon.name} className={`rarity-${leximon.rarity.toLowerCase()}`}>
+            {leximon.name}
+          </li>
+        ))}
+        {hidden > 0 && <li className="specimen-label">and {hidden} more</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { AstExportFormat, AstExportOptions, AstExportResult } from "../utils/astExport";
+import { downloadFile } from "../utils/download";
+import { renderPng, snapshotVisualization } from "../utils/visualExport";
+import { HierarchyNode } from "../utils/astToHierarchy";
+import { DiagramExport } from "./DiagramExport";
+
+interface ExportPanelProps {
+  // Serializes the current tree (in the parse worker); null when there's no tree
+  onExport: (options: AstExportOptions) => Promise<AstExportResult | null>;
+  // The element the current visualization draws into, for pictures of it
+  getVisualization: () => Element | null;
+  viewName: string; // "rings", "tokens"... - names the picture files
+  hierarchy: HierarchyNode | null; // For diagrams; null while there's no tree
+}
+
+const formats: { value: AstExportFormat; label: string; fileName: string }[] = [
+  { value: "typescript", label: "TypeScript AST JSON", fileName: "arbor-ast.json" },
+  { value: "estree", label: "ESTree JSON (typescript-estree)", fileName: "arbor-estree.json" },
+];
+
+const pngScales = [1, 2, 3, 4];
+
+/**
+ * ExportPanel Component
+ *
+ * Takes the tree out of the app: the compiler's own node shape, or the
+ * ESTree that typescript-eslint hands to lint rules. Either one can be
+ * copied or saved as a file, with or without source positions (without
+ * them, two exports diff cleanly even when the code has moved around).
+ *
+ * The second row takes pictures of the current view: an SVG that stands on
+ * its own (palette and fonts inlined), a PNG at a chosen scale for slides,
+ * or the printed "specimen plate" - the code and its tree on one page.
+ * Below that, the tree as diagram source (see DiagramExport).
+ */
+export function ExportPanel({ onExport, getVisualization, viewName, hierarchy }: ExportPanelProps) {
+  const [format, setFormat] = useState<AstExportFormat>("typescript");
+  const [positions, setPositions] = useState(true);
+  const [pngScale, setPngScale] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  const runExport = async (deliver: (json: string) => Promise<string>) => {
+    setIsExporting(true);
+    setStatus(null);
+    try {
+      const result = await onExport({ format, positions });
+      if (result === null) {
+        setStatus({ message: "Nothing to export until the code parses", isError: true });
+      } else if (!result.success) {
+        setStatus({ message: result.error, isError: true });
+      } else {
+        setStatus({ message: await deliver(result.json), isError: false });
+      }
+    } catch {
+      setStatus({ message: "Couldn't copy - try Download instead", isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportPicture = async (type: "svg" | "png") => {
+    const element = getVisualization();
+    if (!element) {
+      setStatus({ message: "Nothing to picture until the code parses", isError: true });
+      return;
+    }
+    setIsExporting(true);
+    setStatus(null);
+    try {
+      const snapshot = await snapshotVisualization(element);
+      const pictureName = `arbor-${viewName}.${type}`;
+      if (type === "svg") {
+        downloadFile(pictureName, snapshot.svg, "image/svg+xml");
+        setStatus({ message: `Saved ${pictureName}`, isError: false });
+      } else {
+        const result = await renderPng(snapshot, pngScale);
+        if (result.success) {
+          downloadFile(pictureName, result.png);
+          setStatus({ message: `Saved ${pictureName} (${formatSize(result.png.size)})`, isError: false });
+        } else {
+          setStatus({ message: result.error, isError: true });
+        }
+      }
+    } catch (error) {
+      setStatus({
+        message: `Couldn't take the picture: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const fileName = formats.find((entry) => entry.value === format)!.fileName;
+
+  return (
+    <div className="no-print" style={{ marginBottom: "var(--space-sm)" }}>
+      <div className="tree-toolbar" style={{ marginBottom: "var(--space-sm)" }}>
+        <select
+          className="field-input"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as AstExportFormat)}
+          aria-label="Export format"
+        >
+          {formats.map((entry) => (
+            <option key={entry.value} value={entry.value}>{entry.label}</option>
+          ))}
+        </select>
+        <label className="specimen-label" style={{ display: "flex", alignItems: "center", gap: "var(--space-xs)" }}>
+          <input
+            type="checkbox"
+            checked={positions}
+            onChange={(e) => setPositions(e.target.checked)}
+          />
+          Include positions
+        </label>
+        <button
+          type="button"
+          className="field-button"
+          disabled={isExporting}
+          onClick={() =>
+            runExport(async (json) => {
+              await navigator.clipboard.writeText(json);
+              return `Copied ${formatSize(json.length)}`;
+            })
+          }
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          className="field-button"
+          disabled={isExporting}
+          onClick={() =>
+            runExport(async (json) => {
+              downloadFile(fileName, json, "application/json");
+              return `Saved ${fileName} (${formatSize(json.length)})`;
+            })
+          }
+        >
+          Download
+        </button>
+      </div>
+      <div className="tree-toolbar">
+        <span className="specimen-label">This view:</span>
+        <button type="button" className="field-button" disabled={isExporting} onClick={() => exportPicture("svg")}>
+          SVG
+        </button>
+        <button type="button" className="field-button" disabled={isExporting} onClick={() => exportPicture("png")}>
+          PNG
+        </button>
+        <select
+          className="field-input"
+          value={pngScale}
+          onChange={(e) => setPngScale(Number(e.target.value))}
+          aria-label="PNG scale"
+        >
+          {pngScales.map((scale) => (
+            <option key={scale} value={scale}>{scale}× resolution</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="field-button"
+          onClick={() => window.print()}
+          title="Print the code and this view on one page"
+        >
+          Print plate
+        </button>
+        {isExporting && (
+          <span className="specimen-label" style={{ fontStyle: "italic" }}>Exporting…</span>
+        )}
+        {status && (
+          <span
+            className="specimen-label"
+            style={status.isError ? { color: "var(--vermillion)" } : undefined}
+          >
+            {status.message}
+          </span>
+        )}
+      </div>
+      <DiagramExport hierarchy={hierarchy} />
+    </div>
+  );
+}
+
+function formatSize(length: number): string {
+  return length < 1024 ? `${length} B` : `${(length / 1024).toFixed(length < 10 * 1024 ? 1 : 0)} KB`;
+}
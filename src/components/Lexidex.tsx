@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import "./Lexidex.css";
+import { Lexidex as LexidexEntries, Occurrence, Sighting } from "../utils/lexidex";
+import { allSpecies, Gliph, gliphCategories, Leximon, rarities, Species } from "../utils/leximons";
+import { HighlightRange } from "../utils/editorHighlights";
+import { SegmentedControl } from "./SegmentedControl";
+
+interface LexidexProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lexidex: LexidexEntries;
+  occurrences: Map<string, Occurrence[]>; // In the current document, by kind name
+  source: string; // The code those occurrences point into
+  onRangeHover: (range: HighlightRange | null) => void;
+  onNodeSelect: (path: string) => void;
+}
+
+type Tab = "runtime" | "types" | "gliphs";
+
+// Longest slice of code shown for one occurrence
+const EXCERPT_LENGTH = 48;
+
+const leximons = allSpecies.filter((species): species is Leximon => species.type === "leximon");
+const gliphs = allSpecies.filter((species): species is Gliph => species.type === "gliph");
+
+/**
+ * Leximons found so far, out of all there are - for the header button.
+ */
+export function countDiscovered(lexidex: LexidexEntries): { found: number; total: number } {
+  return { found: leximons.filter((leximon) => leximon.name in lexidex).length, total: leximons.length };
+}
+
+/**
+ * Lexidex Component
+ *
+ * The field guide to every syntax kind found so far, from the LexiScope
+ * spec: Leximons split by realm (code that runs, code only the type
+ * checker reads) and ranked by rarity, Gliphs by what they do. Species
+ * not yet found are listed as "???" with only their family showing.
+ *
+ * Picking a found species lists where it lives in the current code;
+ * hovering a place highlights it in the editor, clicking a node selects it.
+ */
+export function Lexidex({ isOpen, onClose, lexidex, occurrences, source, onRangeHover, onNodeSelect }: LexidexProps) {
+  const [tab, setTab] = useState<Tab>("runtime");
+  const [search, setSearch] = useState("");
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, onClose]);
+
+  const needle = search.trim().toLowerCase();
+  // Only found species can be searched for - the rest have no name yet
+  const matches = (species: Species) =>
+    !needle ||
+    (species.name in lexidex &&
+      (species.name.toLowerCase().includes(needle) ||
+        (species.type === "gliph" && species.symbol.toLowerCase().includes(needle))));
+
+  const sections = useMemo(() => {
+    if (tab === "gliphs") {
+      return gliphCategories.map((category) => ({
+        title: category,
+        rarity: null,
+        entries: gliphs.filter((gliph) => gliph.category === category),
+      }));
+    }
+    const realm = tab === "runtime" ? "Runtime" : "Type";
+    return rarities.map((rarity) => ({
+      title: rarity,
+      rarity,
+      entries: leximons.filter((leximon) => leximon.realm === realm && leximon.rarity === rarity),
+    }));
+  }, [tab]);
+
+  if (!isOpen) return null;
+
+  const gliphCount = gliphs.filter((gliph) => gliph.name in lexidex).length;
+  const leximonCount = countDiscovered(lexidex);
+  const selected = selectedName !== null ? allSpecies.find((species) => species.name === selectedName) : undefined;
+
+  return (
+    <aside className="side-panel no-print" aria-label="Lexidex">
+      <div className="side-panel-header">
+        <div>
+          <h2 className="side-panel-title">Lexidex</h2>
+          <p className="specimen-label" style={{ margin: 0 }}>
+            {leximonCount.found} / {leximonCount.total} Leximons | {gliphCount} / {gliphs.length} Gliphs
+          </p>
+        </div>
+        <button type="button" className="field-button" onClick={onClose} aria-label="Close the Lexidex">
+          ×
+        </button>
+      </div>
+
+      <div className="tree-toolbar" style={{ marginBottom: "var(--space-sm)" }}>
+        <SegmentedControl
+          options={["Runtime", "Types", "Gliphs"]}
+          selected={tab}
+          onChange={(option) => setTab(option as Tab)}
+        />
+        <input
+          type="search"
+          className="field-input"
+          placeholder="Search found species…"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          aria-label="Search the Lexidex"
+          style={{ flex: 1, minWidth: "8rem" }}
+        />
+      </div>
+
+      {selected && selected.name in lexidex && (
+        <SpeciesDetail
+          species={selected}
+          sighting={lexidex[selected.name]}
+          occurrences={occurrences.get(selected.name) ?? []}
+          source={source}
+          onRangeHover={onRangeHover}
+          onNodeSelect={onNodeSelect}
+          onClose={() => setSelectedName(null)}
+        />
+      )}
+
+      <div className="lexidex-sections">
+        {sections.map((section) => {
+          const found = section.entries.filter((species) => species.name in lexidex).length;
+          const shown = section.entries.filter(matches);
+          if (shown.length === 0) return null;
+          return (
+            <section key={section.title} className="lexidex-section">
+              <div className="lexidex-section-header">
+                <span className={section.rarity ? `rarity-${section.rarity.toLowerCase()}` : undefined}>
+                  {section.title}
+                </span>
+                <span className="specimen-label">
+                  {found} / {section.entries.length}
+                </span>
+              </div>
+              <div className="lexidex-progress">
+                <div
+                  className={`lexidex-progress-fill${section.rarity ? ` rarity-${section.rarity.toLowerCase()}` : ""}`}
+                  style={{ width: `${(found / section.entries.length) * 100}%` }}
+                />
+              </div>
+              <div className="lexidex-entries">
+                {shown.map((species) => {
+                  const isFound = species.name in lexidex;
+                  const count = occurrences.get(species.name)?.length ?? 0;
+                  const family = species.type === "leximon" ? species.family : species.category;
+                  return (
+                    <button
+                      key={species.name}
+                      type="button"
+                      className={`lexidex-entry${isFound ? "" : " undiscovered"}${
+                        species.name === selectedName ? " selected" : ""
+                      }`}
+                      disabled={!isFound}
+                      onClick={() => setSelectedName(species.name === selectedName ? null : species.name)}
+                      title={isFound ? `${species.name} - ${count} in this specimen` : `An undiscovered ${family}`}
+                    >
+                      <span className="lexidex-entry-name">
+                        {!isFound ? "???" : species.type === "gliph" ? species.symbol : species.name}
+                      </span>
+                      <span className="lexidex-entry-family">
+                        {family}
+                        {count > 0 && ` · ${count}`}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
+
+interface SpeciesDetailProps {
+  species: Species;
+  sighting: Sighting;
+  occurrences: Occurrence[];
+  source: string;
+  onRangeHover: (range: HighlightRange | null) => void;
+  onNodeSelect: (path: string) => void;
+  onClose: () => void;
+}
+
+function SpeciesDetail({
+  species,
+  sighting,
+  occurrences,
+  source,
+  onRangeHover,
+  onNodeSelect,
+  onClose,
+}: SpeciesDetailProps) {
+  return (
+    <div className="lexidex-detail paper-elevated">
+      <div className="lexidex-section-header">
+        <strong className={species.type === "leximon" ? `rarity-${species.rarity.toLowerCase()}` : undefined}>
+          {species.type === "gliph" ? `${species.symbol}  ${species.name}` : species.name}
+        </strong>
+        <button type="button" className="field-button" onClick={onClose} aria-label="Close details">
+          ×
+        </button>
+      </div>
+      <p className="specimen-label" style={{ margin: 0 }}>
+        {species.type === "leximon"
+          ? `${species.rarity} · ${species.realm} realm · ${species.family}`
+          : `Gliph · ${species.category}`}
+      </p>
+      <p className="specimen-label" style={{ margin: "var(--space-xs) 0 0" }}>
+        First seen {new Date(sighting.firstSeen).toLocaleDateString()} in{" "}
+        <code className="lexidex-code">{sighting.firstSeenIn}</code>
+      </p>
+      <p className="specimen-label" style={{ margin: "var(--space-xs) 0 0" }}>
+        Largest colony: {sighting.largestColony} in one specimen
+      </p>
+
+      <h3 className="side-panel-subtitle">Occurrences in this specimen ({occurrences.length})</h3>
+      {occurrences.length === 0 ? (
+        <p className="specimen-label" style={{ margin: 0, fontStyle: "italic" }}>
+          None in the current code.
+        </p>
+      ) : (
+        <ul className="lexidex-occurrences" onMouseLeave={() => onRangeHover(null)}>
+          {occurrences.map((occurrence) => (
+            <li key={`${occurrence.start}:${occurrence.end}:${occurrence.path ?? ""}`}>
+              <button
+                type="button"
+                className="lexidex-occurrence"
+                onMouseEnter={() => onRangeHover({ from: occurrence.start, to: occurrence.end })}
+                // Scanner-only kinds have no node to select
+                onClick={() => occurrence.path !== undefined && onNodeSelect(occurrence.path)}
+              >
+                <span className="token-position">
+                  {occurrence.line}:{occurrence.column}
+                </span>
+                <span className="token-text">{excerpt(source, occurrence)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// The occurrence's code on one line, shortened
+function excerpt(source: string, { start, end }: Occurrence): string {
+  const text = source.slice(start, end).replace(/\s+/g, " ");
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
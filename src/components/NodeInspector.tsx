@@ -0,0 +1,214 @@
+import { CSSProperties } from 'react';
+import { getNodeTypeName } from '../utils/parser';
+import { NodeDetails, NodeRef } from '../utils/nodeDetails';
+import { HighlightRange } from '../utils/editorHighlights';
+import { TypeInfo } from '../utils/typeChecker';
+import { guideEntriesByName } from '../utils/syntaxKindGuide';
+
+interface NodeInspectorProps {
+  details: NodeDetails;
+  typeInfo?: TypeInfo | null; // What the type checker says, once it has answered
+  onNodeHover?: (path: string | null) => void;
+  onNodeSelect?: (path: string) => void;
+  onRangeHover?: (range: HighlightRange | null) => void;
+  onKindInfo?: (kindName: string) => void; // Open the field guide at this kind
+}
+
+const rowStyle: CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '11rem 1fr',
+  gap: 'var(--space-sm)',
+  alignItems: 'baseline',
+  padding: '2px 0',
+};
+
+const nameStyle: CSSProperties = {
+  color: 'var(--ink-wash)',
+};
+
+/**
+ * NodeInspector Component
+ *
+ * PARSING INSIGHT: A Node Up Close
+ * =================================
+ * The tree views show a node as its kind and children. Under the hood it's
+ * an object with named fields (the grammar's slots), two ranges - pos
+ * includes the whitespace and comments before the node, start doesn't - and
+ * bit flags the parser sets along the way: Const/Let on a declaration list,
+ * ThisNodeHasError on a node built during error recovery, Export and Async
+ * from modifiers. This is the level tools like ESLint rules work at.
+ */
+export function NodeInspector({
+  details,
+  typeInfo,
+  onNodeHover,
+  onNodeSelect,
+  onRangeHover,
+  onKindInfo,
+}: NodeInspectorProps) {
+  const kindName = getNodeTypeName(details.kind);
+  const guideEntry = guideEntriesByName.get(kindName);
+
+  const link = (ref: NodeRef) => (
+    <button
+      key={ref.path}
+      type="button"
+      className="node-link"
+      onClick={() => onNodeSelect?.(ref.path)}
+      onMouseEnter={() => onNodeHover?.(ref.path)}
+      onMouseLeave={() => onNodeHover?.(null)}
+    >
+      {ref.label}
+    </button>
+  );
+
+  const flags = (names: string[]) =>
+    names.length > 0 ? names.join(' | ') : <span style={nameStyle}>None</span>;
+
+  return (
+    <div
+      className="paper-elevated"
+      style={{
+        marginTop: 'var(--space-md)',
+        padding: 'var(--space-sm) var(--space-md)',
+        border: '2px solid var(--ink-light)',
+        borderRadius: '4px',
+        maxHeight: '40%',
+        overflowY: 'auto',
+        flexShrink: 0,
+        fontFamily: 'var(--font-mono)',
+        fontSize: '0.875rem',
+        color: 'var(--ink-fresh)',
+      }}
+    >
+      <strong style={{ fontSize: '1rem' }}>
+        {kindName}
+      </strong>{' '}
+      <span style={nameStyle}>
+        kind {details.kind} · path "{details.path}"
+      </span>
+      {onKindInfo && guideEntry && (
+        <button type="button" className="node-link" onClick={() => onKindInfo(kindName)}>
+          About this kind
+        </button>
+      )}
+      {guideEntry && (
+        <div style={{ ...nameStyle, fontFamily: 'var(--font-body)' }}>
+          {guideEntry.description.replace(/`/g, '')}
+        </div>
+      )}
+
+      <div style={{ marginTop: 'var(--space-xs)' }}>
+        <div style={rowStyle}>
+          <span style={nameStyle}>parent</span>
+          <span>{details.parent ? link(details.parent) : '—'}</span>
+        </div>
+        <div
+          style={rowStyle}
+          onMouseEnter={() => onRangeHover?.({ from: details.pos, to: details.end })}
+          onMouseLeave={() => onRangeHover?.(null)}
+        >
+          <span style={nameStyle}>full range</span>
+          <span>pos {details.pos} → end {details.end} <span style={nameStyle}>(with leading trivia)</span></span>
+        </div>
+        <div
+          style={rowStyle}
+          onMouseEnter={() => onRangeHover?.({ from: details.start, to: details.end })}
+          onMouseLeave={() => onRangeHover?.(null)}
+        >
+          <span style={nameStyle}>trimmed range</span>
+          <span>start {details.start} → end {details.end} <span style={nameStyle}>(getStart)</span></span>
+        </div>
+        <div style={rowStyle}>
+          <span style={nameStyle}>source</span>
+          <span style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>{details.text}</span>
+        </div>
+        <div style={rowStyle}>
+          <span style={nameStyle}>NodeFlags</span>
+          <span>{flags(details.nodeFlags)}</span>
+        </div>
+        <div style={rowStyle}>
+          <span style={nameStyle}>ModifierFlags</span>
+          <span>{flags(details.modifierFlags)}</span>
+        </div>
+      </div>
+
+      {typeInfo && (
+        <>
+          <div className="specimen-label" style={{ marginTop: 'var(--space-sm)' }}>Type checker</div>
+          <div style={rowStyle}>
+            <span style={nameStyle}>type</span>
+            <span style={{ wordBreak: 'break-all' }}>
+              {typeInfo.type ?? <span style={nameStyle}>None (not an expression)</span>}
+            </span>
+          </div>
+          {typeInfo.type !== null && (
+            <div style={rowStyle}>
+              <span style={nameStyle}>TypeFlags</span>
+              <span>{flags(typeInfo.typeFlags)}</span>
+            </div>
+          )}
+          <div style={rowStyle}>
+            <span style={nameStyle}>symbol</span>
+            <span>{typeInfo.symbol ? typeInfo.symbol.name : '—'}</span>
+          </div>
+          {typeInfo.symbol && (
+            <>
+              <div style={rowStyle}>
+                <span style={nameStyle}>SymbolFlags</span>
+                <span>{flags(typeInfo.symbol.flags)}</span>
+              </div>
+              <div style={rowStyle}>
+                <span style={nameStyle}>declared at</span>
+                <span style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-xs)' }}>
+                  {typeInfo.symbol.declarations.length === 0 && '—'}
+                  {typeInfo.symbol.declarations.map((declaration) =>
+                    declaration.node ? (
+                      link(declaration.node)
+                    ) : (
+                      <span key={`${declaration.fileName}:${declaration.line}`} style={nameStyle}>
+                        {declaration.fileName}:{declaration.line}
+                      </span>
+                    )
+                  )}
+                </span>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {details.slots.length > 0 && (
+        <>
+          <div className="specimen-label" style={{ marginTop: 'var(--space-sm)' }}>Child slots</div>
+          {details.slots.map((slot) => (
+            <div key={slot.name} style={rowStyle}>
+              <span style={nameStyle}>{slot.name}</span>
+              <span style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-xs)' }}>
+                {slot.value === null
+                  ? '—'
+                  : Array.isArray(slot.value)
+                    ? slot.value.length > 0
+                      ? slot.value.map(link)
+                      : '[ ]'
+                    : link(slot.value)}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {details.properties.length > 0 && (
+        <>
+          <div className="specimen-label" style={{ marginTop: 'var(--space-sm)' }}>Properties</div>
+          {details.properties.map((property) => (
+            <div key={property.name} style={rowStyle}>
+              <span style={nameStyle}>{property.name}</span>
+              <span style={{ wordBreak: 'break-all' }}>{property.value}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
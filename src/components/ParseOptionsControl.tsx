@@ -0,0 +1,68 @@
+import { CustomSelect } from './CustomSelect';
+import {
+  LanguageMode,
+  ModuleDetection,
+  ParseOptions,
+  languageModes,
+  moduleDetections,
+  scriptTargets,
+} from '../utils/parser';
+
+interface ParseOptionsControlProps {
+  options: ParseOptions;
+  onChange: (options: ParseOptions) => void;
+}
+
+/**
+ * ParseOptionsControl Component
+ *
+ * PARSING INSIGHT: One Text, Many Grammars
+ * =========================================
+ * A parser doesn't just read characters - it reads them against a grammar.
+ * Change the grammar and the same characters produce a different tree:
+ * "<T>(x: T) => x" is a generic arrow function in TypeScript, but the start
+ * of a JSX element in TSX.
+ *
+ * These selectors let you swap the grammar under the editor and compare.
+ */
+export function ParseOptionsControl({ options, onChange }: ParseOptionsControlProps) {
+  return (
+    <div style={{ display: 'flex', gap: 'var(--space-md)' }}>
+      <div style={{ flex: 1 }}>
+        <CustomSelect
+          label="Language:"
+          value={options.language}
+          onChange={(language) => onChange({ ...options, language: language as LanguageMode })}
+          options={Object.entries(languageModes).map(([value, mode]) => ({
+            value,
+            label: mode.label,
+          }))}
+        />
+      </div>
+
+      <div style={{ flex: 1 }}>
+        <CustomSelect
+          label="Target:"
+          value={String(options.target)}
+          onChange={(target) => onChange({ ...options, target: Number(target) })}
+          options={scriptTargets.map(({ target, label }) => ({
+            value: String(target),
+            label,
+          }))}
+        />
+      </div>
+
+      <div style={{ flex: 1 }}>
+        <CustomSelect
+          label="Module:"
+          value={options.module}
+          onChange={(module) => onChange({ ...options, module: module as ModuleDetection })}
+          options={moduleDetections.map(({ module, label }) => ({
+            value: module,
+            label,
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import "./QRModal.css";
 import qrCodeImage from "../../docs/moodboard/arbor-parser.png";
+import { createQrPath } from "../utils/qrCode";
 
 interface QRModalProps {
   isOpen: boolean;
   onClose: () => void;
+  url: string; // Permalink to the current specimen
+  onCopyLink: () => void;
+  copyStatus?: string | null; // "Link copied", or why it wasn't
 }
 
 /**
@@ -13,9 +17,14 @@ interface QRModalProps {
  * Designed to feel like discovering a pressed botanical specimen in an archive.
  * The QR code appears as a mysterious cipher, like a scientific notation system
  * from a 19th-century field guide.
+ *
+ * The cipher is drawn here in the browser for the current permalink, so
+ * scanning it opens this exact code and view. Links too long for a QR code
+ * fall back to the printed card pointing at the homepage.
  */
-export function QRModal({ isOpen, onClose }: QRModalProps) {
+export function QRModal({ isOpen, onClose, url, onCopyLink, copyStatus }: QRModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
+  const qr = useMemo(() => (isOpen ? createQrPath(url) : null), [isOpen, url]);
 
   // Handle escape key and backdrop click
   useEffect(() => {
@@ -64,12 +73,32 @@ export function QRModal({ isOpen, onClose }: QRModalProps) {
 
         {/* QR code as a "pressed specimen" */}
         <div className="qr-specimen-container">
-          <img src={qrCodeImage} alt="QR Code" className="qr-image" />
+          {qr ? (
+            <svg
+              className="qr-image"
+              viewBox={`-4 -4 ${qr.size + 8} ${qr.size + 8}`}
+              role="img"
+              aria-label="QR code for this specimen's permalink"
+              shapeRendering="crispEdges"
+            >
+              <path d={qr.path} fill="var(--ink-fresh)" />
+            </svg>
+          ) : (
+            <img src={qrCodeImage} alt="QR Code" className="qr-image" />
+          )}
           <div className="qr-specimen-label">
             <em>Codex Binarius Arborem</em>
             <br />
-            <small>Scan to observe in natural habitat</small>
+            <small>
+              {qr
+                ? "Scan to observe this specimen in natural habitat"
+                : "Specimen too large to encode - scan to visit the homepage"}
+            </small>
           </div>
+          <button type="button" className="field-button" onClick={onCopyLink} style={{ marginTop: "var(--space-sm)" }}>
+            Copy link
+          </button>
+          {copyStatus && <small className="qr-copy-status">{copyStatus}</small>}
         </div>
 
         {/* Field notes section */}
@@ -0,0 +1,76 @@
+import { QueryResult } from "../utils/query";
+
+interface QueryBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  result: QueryResult | null; // null while there's no query (or no answer yet)
+  currentIndex: number; // Match the user last stepped to, or -1
+  onStep: (direction: 1 | -1) => void;
+}
+
+/**
+ * QueryBar Component
+ *
+ * A selector input with the match count and next/previous buttons. Enter
+ * steps forward, Shift+Enter back - the same keys as find-in-page. The
+ * matching itself happens in the parse worker (see selectNodes).
+ */
+export function QueryBar({ query, onQueryChange, result, currentIndex, onStep }: QueryBarProps) {
+  const matchCount = result?.success ? result.matches.length : 0;
+
+  let status = "";
+  if (result && !result.success) {
+    status = `${result.error} (column ${result.column})`;
+  } else if (result) {
+    status = matchCount === 0
+      ? "No matches"
+      : currentIndex >= 0
+        ? `${currentIndex + 1} of ${matchCount}`
+        : `${matchCount} ${matchCount === 1 ? "match" : "matches"}`;
+  }
+
+  return (
+    <div className="tree-toolbar" style={{ marginBottom: "var(--space-sm)" }}>
+      <input
+        type="search"
+        className="field-input"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && matchCount > 0) onStep(e.shiftKey ? -1 : 1);
+        }}
+        placeholder='Query, e.g. TryStatement AwaitExpression or CallExpression[expression.name.text="log"]'
+        aria-label="AST query"
+        aria-invalid={result !== null && !result.success}
+        spellCheck={false}
+        style={{ flex: 1, minWidth: "12rem" }}
+      />
+      <button
+        type="button"
+        className="field-button"
+        onClick={() => onStep(-1)}
+        disabled={matchCount === 0}
+        aria-label="Previous match"
+      >
+        ↑
+      </button>
+      <button
+        type="button"
+        className="field-button"
+        onClick={() => onStep(1)}
+        disabled={matchCount === 0}
+        aria-label="Next match"
+      >
+        ↓
+      </button>
+      {status && (
+        <span
+          className="specimen-label"
+          style={result && !result.success ? { color: "var(--vermillion)" } : undefined}
+        >
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
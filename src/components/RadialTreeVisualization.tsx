@@ -0,0 +1,208 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { getFieldLabel, HierarchyNode } from '../utils/astToHierarchy';
+import { getRadialRadius, radialLayout } from '../utils/layouts';
+import { getInkGradient } from '../theme/botanical';
+
+interface RadialTreeVisualizationProps {
+  hierarchy: HierarchyNode; // With branch positions precomputed by the parse worker
+  selectedPath?: string | null;
+  onNodeHover?: (path: string | null) => void;
+  onNodeSelect?: (path: string) => void;
+  showReuse?: boolean; // Reparse overlay: reused vs rebuilt nodes
+}
+
+/**
+ * RadialTreeVisualization Component
+ *
+ * PARSING INSIGHT: Trees All the Way Down
+ * ========================================
+ * Naturalists drew phylogenies as branching trees radiating from a common
+ * ancestor. An AST has the same shape: the program is the root, every
+ * statement a branch, every token a leaf.
+ *
+ * The tidy tree (Reingold-Tilford) layout keeps sibling subtrees from
+ * overlapping while packing them tightly. Wrapped around a circle, depth
+ * becomes distance from the centre - the further out a node sits, the more
+ * deeply nested that piece of code is.
+ */
+export function RadialTreeVisualization({
+  hierarchy,
+  selectedPath = null,
+  onNodeHover,
+  onNodeSelect,
+  showReuse = false,
+}: RadialTreeVisualizationProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const onNodeHoverRef = useRef(onNodeHover);
+  const onNodeSelectRef = useRef(onNodeSelect);
+  const selectedPathRef = useRef(selectedPath);
+  const showReuseRef = useRef(showReuse);
+  // Restyles nodes and links for the current selection (set once the layout exists)
+  const paintRef = useRef<(() => void) | null>(null);
+
+  // Keep refs updated with latest callbacks
+  useEffect(() => {
+    onNodeHoverRef.current = onNodeHover;
+    onNodeSelectRef.current = onNodeSelect;
+  }, [onNodeHover, onNodeSelect]);
+
+  // Selection changes only restyle - no need to rebuild the layout
+  useEffect(() => {
+    selectedPathRef.current = selectedPath;
+    paintRef.current?.();
+  }, [selectedPath]);
+
+  useEffect(() => {
+    showReuseRef.current = showReuse;
+    paintRef.current?.();
+  }, [showReuse]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    // Clear previous visualization
+    d3.select(svgRef.current).selectAll('*').remove();
+
+    // Define type for tree layout node (x = angle in radians, y = radius)
+    type TreeNode = d3.HierarchyPointNode<HierarchyNode>;
+    type TreeLink = d3.HierarchyPointLink<HierarchyNode>;
+
+    // The tidy tree was laid out in the parse worker - attach its positions
+    const layout = d3.hierarchy<HierarchyNode>(hierarchy) as TreeNode;
+    layout.each(d => {
+      d.x = d.data.branch?.angle ?? 0;
+      d.y = d.data.branch?.radius ?? 0;
+    });
+
+    const radius = getRadialRadius(layout.leaves().length);
+    const { margin } = radialLayout;
+
+    const nodes = layout.descendants();
+    const links = layout.links();
+    const maxDepth = layout.height;
+
+    const size = (radius + margin) * 2;
+
+    // Create SVG, centred on the root
+    const svg = d3.select(svgRef.current)
+      .attr('width', '100%')
+      .attr('height', '100%')
+      .attr('viewBox', `${-size / 2} ${-size / 2} ${size} ${size}`)
+      .style('cursor', 'grab');
+
+    // Everything pans and zooms together
+    const g = svg.append('g');
+
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.25, 8])
+      .on('zoom', (event) => {
+        g.attr('transform', event.transform);
+      });
+
+    svg.call(zoom);
+
+    // Curved branches from parent to child
+    const linkRadial = d3.linkRadial<TreeLink, TreeNode>()
+      .angle(d => d.x)
+      .radius(d => d.y);
+
+    const link = g.append('g')
+      .attr('fill', 'none')
+      .selectAll('path')
+      .data(links)
+      .join('path')
+      .attr('d', linkRadial);
+
+    // Position each node: rotate to its angle, then push out to its radius
+    const node = g.append('g')
+      .selectAll('g')
+      .data(nodes)
+      .join('g')
+      .attr('transform', d => `rotate(${(d.x * 180) / Math.PI - 90}) translate(${d.y},0)`);
+
+    const isSelected = (d: TreeNode) => d.data.path === selectedPathRef.current;
+
+    const paint = () => {
+      // Branches leading to the selected node are inked in vermillion
+      const selected = nodes.find(isSelected);
+      const selectedPath = new Set<TreeNode>(selected ? selected.ancestors() : []);
+
+      link
+        .attr('stroke', d => selectedPath.has(d.target) ? 'var(--vermillion)' : getInkGradient(d.target.depth, maxDepth))
+        .attr('stroke-opacity', d => selectedPath.has(d.target) ? 0.9 : 0.45)
+        .attr('stroke-width', d => selectedPath.has(d.target) ? 2.5 : 1.5);
+
+      // Reparse overlay: verdigris for reused nodes, ochre for rebuilt ones
+      const getFill = (d: TreeNode) => {
+        if (!showReuseRef.current) return getInkGradient(d.depth, maxDepth);
+        return d.data.isReused ? 'var(--verdigris)' : 'var(--ochre)';
+      };
+
+      node.select<SVGCircleElement>('circle')
+        .attr('fill', d => isSelected(d) ? 'var(--vermillion)' : getFill(d))
+        .attr('stroke', d => d.data.isMissing || isSelected(d) ? 'var(--vermillion)' : 'var(--paper-pristine)')
+        .attr('r', d => isSelected(d) ? 7 : 4.5);
+    };
+
+    node.append('circle')
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', d => d.data.isMissing ? '2 2' : null)
+      .style('cursor', 'pointer')
+      .on('mouseenter', function(_, d) {
+        d3.select(this)
+          .attr('fill', 'var(--vermillion)')
+          .attr('r', 7);
+        // Highlight corresponding code in editor
+        onNodeHoverRef.current?.(d.data.path);
+      })
+      .on('mouseleave', () => {
+        paint();
+        // Clear highlight in editor
+        onNodeHoverRef.current?.(null);
+      })
+      .on('click', (_, d) => {
+        // Select node and its code in the editor
+        if (!d.data.isNodeArray) onNodeSelectRef.current?.(d.data.path);
+      });
+
+    // Labels read outward; flip the left half so nothing is upside down
+    node.append('text')
+      .attr('dy', '0.31em')
+      .attr('x', d => (d.x < Math.PI) === !d.children ? 8 : -8)
+      .attr('text-anchor', d => (d.x < Math.PI) === !d.children ? 'start' : 'end')
+      .attr('transform', d => d.x >= Math.PI ? 'rotate(180)' : null)
+      .style('font-family', 'var(--font-mono)')
+      .style('font-size', '11px')
+      .style('fill', d => getInkGradient(d.depth, maxDepth))
+      .style('pointer-events', 'none')
+      .text(d => d.data.name)
+      .clone(true).lower()
+      .attr('stroke', 'var(--paper-pristine)')
+      .attr('stroke-width', 3);
+
+    // Add tooltips on hover
+    node.append('title')
+      .text(d => getFieldLabel(d.data));
+
+    paint();
+    paintRef.current = paint;
+
+    return () => {
+      paintRef.current = null;
+    };
+  }, [hierarchy]);
+
+  return (
+    <div className="tree-container" style={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      overflow: 'hidden',
+    }}>
+      <svg ref={svgRef}></svg>
+    </div>
+  );
+}
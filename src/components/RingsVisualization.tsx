@@ -1,146 +1,229 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useId, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import * as ts from 'typescript';
-import { astRootToHierarchy, HierarchyNode } from '../utils/astToHierarchy';
+import { getFieldLabel, HierarchyNode } from '../utils/astToHierarchy';
+import { ringsLayout } from '../utils/layouts';
+import { DiffStatus } from '../utils/treeDiff';
 import { getInkGradient } from '../theme/botanical';
 
+// Compare mode: what happened to each node between the two versions
+const diffColors: Record<DiffStatus, string> = {
+  inserted: 'var(--verdigris)',
+  deleted: 'var(--vermillion)',
+  updated: 'var(--ochre)',
+  moved: 'var(--indigo)',
+};
+
 interface RingsVisualizationProps {
-  ast: ts.SourceFile;
-  onNodeHover?: (node: ts.Node | null) => void;
+  hierarchy: HierarchyNode; // With ring positions precomputed by the parse worker
+  selectedPath?: string | null;
+  onNodeHover?: (path: string | null) => void;
+  onNodeSelect?: (path: string) => void;
+  showReuse?: boolean; // Reparse overlay: reused vs rebuilt nodes
+  matchPaths?: ReadonlySet<string>; // Nodes matched by the query bar
+  diffStatus?: ReadonlyMap<string, DiffStatus>; // Compare mode: how each node changed
 }
 
-export function RingsVisualization({ ast, onNodeHover }: RingsVisualizationProps) {
+/**
+ * RingsVisualization Component
+ *
+ * PARSING INSIGHT: Nesting as Containment
+ * ========================================
+ * Circle packing draws every node as a ring that contains its children, so
+ * nesting depth becomes rings within rings - like growth rings in a cut
+ * branch. Deep code means many rings, and tiny ones.
+ *
+ * To read the inner rings, zoom in: click a ring to bring it to fill the
+ * view and label its direct children, scroll or drag to pan and zoom
+ * freely, and use the breadcrumb trail (or click the background) to climb
+ * back out toward the root.
+ */
+export function RingsVisualization({
+  hierarchy,
+  selectedPath = null,
+  onNodeHover,
+  onNodeSelect,
+  showReuse = false,
+  matchPaths,
+  diffStatus,
+}: RingsVisualizationProps) {
   const svgRef = useRef<SVGSVGElement>(null);
+  // Label arcs are referenced by id, which must be unique on the page when
+  // two ring views sit side by side (compare mode)
+  const idPrefix = useId();
   const onNodeHoverRef = useRef(onNodeHover);
+  const onNodeSelectRef = useRef(onNodeSelect);
+  const selectedPathRef = useRef(selectedPath);
+  const showReuseRef = useRef(showReuse);
+  const matchPathsRef = useRef(matchPaths);
+  const diffStatusRef = useRef(diffStatus);
+  // Restyles every circle for the current selection (set once the layout exists)
+  const paintRef = useRef<(() => void) | null>(null);
+  // Zooms to the ring of a given node path (set once the layout exists)
+  const focusOnRef = useRef<((path: string, animate: boolean) => void) | null>(null);
+  // Focused ring's node path, so focus survives re-parsing while typing
+  const focusPathRef = useRef<string | null>(null);
+  // Ancestors of the focused ring, root first
+  const [trail, setTrail] = useState<{ name: string; path: string }[]>([]);
 
-  // Keep ref updated with latest callback
+  // Keep refs updated with latest callbacks
   useEffect(() => {
     onNodeHoverRef.current = onNodeHover;
-  }, [onNodeHover]);
+    onNodeSelectRef.current = onNodeSelect;
+  }, [onNodeHover, onNodeSelect]);
 
+  // Selection changes only restyle circles (and bring the selection into
+  // view if it's outside the focused ring) - no need to rebuild the layout
   useEffect(() => {
-    if (!svgRef.current) return;
+    selectedPathRef.current = selectedPath;
+    paintRef.current?.();
+  }, [selectedPath]);
 
-    // Clear previous visualization
-    d3.select(svgRef.current).selectAll('*').remove();
+  useEffect(() => {
+    showReuseRef.current = showReuse;
+    paintRef.current?.();
+  }, [showReuse]);
 
-    // Convert AST to hierarchy
-    const hierarchyData = astRootToHierarchy(ast);
+  useEffect(() => {
+    matchPathsRef.current = matchPaths;
+    paintRef.current?.();
+  }, [matchPaths]);
+
+  useEffect(() => {
+    diffStatusRef.current = diffStatus;
+    paintRef.current?.();
+  }, [diffStatus]);
 
-    // Set up dimensions
-    const width = 800;
-    const height = 600;
-    const margin = 50; // Increased margin to prevent label clipping
+  useEffect(() => {
+    if (!svgRef.current) return;
 
-    // Create D3 hierarchy
-    const root = d3.hierarchy<HierarchyNode>(hierarchyData);
+    // Clear previous visualization
+    d3.select(svgRef.current).selectAll('*').remove();
 
-    // Sum values (required before pack)
-    root.sum(d => d.value || 1);
+    // Set up dimensions (viewBox units - the SVG scales to its container)
+    const { width, height, margin } = ringsLayout;
 
     // Define type for pack layout node (includes x, y, r)
     type PackNode = d3.HierarchyCircularNode<HierarchyNode>;
 
-    // Function to calculate font size for a node
-    const getFontSize = (depth: number) => {
-      const baseSize = 40 - (depth * 3); // 2x the original max (was 20)
-      const minSize = 24; // 2x the original min (was 12)
+    // Circles were packed in the parse worker - attach their positions
+    const root = d3.hierarchy<HierarchyNode>(hierarchy) as PackNode;
+    root.each(d => {
+      Object.assign(d, d.data.ring);
+    });
+
+    // Label size on screen, by depth relative to the focused ring
+    const getFontSize = (relativeDepth: number) => {
+      const baseSize = 28 - (relativeDepth * 6);
+      const minSize = 16;
       return Math.max(baseSize, minSize);
     };
 
-    // Use font size as padding to visually tie labels to rings
-    const maxFontSize = getFontSize(0);
-    const pack = d3.pack<HierarchyNode>()
-      .size([width - margin * 2, height - margin * 2])
-      .padding(maxFontSize); // Padding matches font size
-
-    // Apply pack layout
-    pack(root);
-
     // Create SVG
     const svg = d3.select(svgRef.current)
       .attr('width', width)
       .attr('height', height)
       .attr('viewBox', `0 0 ${width} ${height}`)
       .style('max-width', '100%')
-      .style('height', 'auto');
+      .style('height', 'auto')
+      .style('cursor', 'grab');
 
-    // Create a group for the visualization with margin
-    const g = svg.append('g')
+    // Outer group receives the zoom transform, inner group the margin
+    const viewport = svg.append('g');
+    const g = viewport.append('g')
       .attr('transform', `translate(${margin}, ${margin})`);
 
     // Get all nodes (descendants) with pack layout properties
-    const nodes = root.descendants() as PackNode[];
+    const nodes = root.descendants();
 
     // Create color scale based on depth (using ink gradient)
     const maxDepth = root.height;
 
+    // Nodes invented during error recovery get a dashed vermillion outline
+    const getStroke = (d: PackNode) =>
+      d.data.isMissing ? 'var(--vermillion)' : getInkGradient(d.depth, maxDepth);
+
     // Create groups for each node
     const node = g.selectAll('g')
       .data(nodes)
       .join('g')
-      .attr('transform', d => `translate(${d.x!},${d.y!})`);
+      .attr('transform', d => `translate(${d.x},${d.y})`);
 
-    // Add circles with ink-based coloring
-    node.append('circle')
-      .attr('r', d => d.r!)
-      .attr('fill', d => getInkGradient(d.depth, maxDepth))
-      .attr('fill-opacity', 0.15)
-      .attr('stroke', d => getInkGradient(d.depth, maxDepth))
-      .attr('stroke-width', 1.5)
-      .style('cursor', 'pointer')
-      .on('mouseenter', function(_, d) {
-        d3.select(this)
-          .attr('fill', 'var(--vermillion)')
-          .attr('fill-opacity', 0.3)
-          .attr('stroke', 'var(--vermillion)')
-          .attr('stroke-width', 2.5);
-        // Highlight corresponding code in editor
-        onNodeHoverRef.current?.(d.data.astNode);
+    // Compare mode colours changed nodes; the reparse overlay paints
+    // verdigris for reused nodes, ochre for rebuilt ones
+    const getChange = (d: PackNode) => diffStatusRef.current?.get(d.data.path);
+    const getFill = (d: PackNode) => {
+      const change = getChange(d);
+      if (change) return diffColors[change];
+      if (!showReuseRef.current) return getInkGradient(d.depth, maxDepth);
+      return d.data.isReused ? 'var(--verdigris)' : 'var(--ochre)';
+    };
+
+    // Resting style: ink by depth, vermillion fill for the selected node,
+    // ochre for query matches, change colours in compare mode
+    const isSelected = (d: PackNode) => d.data.path === selectedPathRef.current;
+    const isMatch = (d: PackNode) => !!matchPathsRef.current?.has(d.data.path);
+    const paint = (
+      circle: d3.Selection<SVGCircleElement, PackNode, d3.BaseType, unknown>
+    ) => circle
+      .attr('fill', d => isSelected(d) ? 'var(--vermillion)' : isMatch(d) ? 'var(--ochre)' : getFill(d))
+      .attr('fill-opacity', d => isSelected(d) ? 0.35 : isMatch(d) || getChange(d) || showReuseRef.current ? 0.3 : 0.15)
+      .attr('stroke', d => {
+        if (isSelected(d)) return 'var(--vermillion)';
+        if (isMatch(d)) return 'var(--ochre)';
+        const change = getChange(d);
+        return change ? diffColors[change] : getStroke(d);
       })
-      .on('mouseleave', function(_, d) {
-        d3.select(this)
-          .attr('fill', getInkGradient(d.depth, maxDepth))
-          .attr('fill-opacity', 0.15)
-          .attr('stroke', getInkGradient(d.depth, maxDepth))
-          .attr('stroke-width', 1.5);
-        // Clear highlight in editor
-        onNodeHoverRef.current?.(null);
-      });
+      .attr('stroke-width', d => isSelected(d) || isMatch(d) ? 3 : 1.5)
+      // Keep outlines the same thickness on screen at any zoom
+      .attr('vector-effect', 'non-scaling-stroke');
 
-    // Create defs for curved text paths
+    let focus = root;
+    let scale = 1;
+
+    // Labels live in their own layer, redrawn for the focused ring and
+    // its direct children whenever the focus or zoom level changes
+    const labels = viewport.append('g')
+      .attr('transform', `translate(${margin}, ${margin})`)
+      .style('pointer-events', 'none');
     const defs = svg.append('defs');
 
-    // Add curved text labels along the top arc of each circle
-    nodes.forEach((d, i) => {
-      const label = d.data.name;
-      const fontSize = getFontSize(d.depth);
+    const drawLabels = () => {
+      labels.selectAll('*').remove();
+      defs.selectAll('*').remove();
+
+      [focus, ...(focus.children ?? [])].forEach((d, i) => {
+        // Skip rings too small on screen to carry a label
+        if (d.r * scale <= 30) return;
+
+        const label = getFieldLabel(d.data);
+        const fontSize = getFontSize(d.depth - focus.depth);
 
-      // Only show label for top-level ring (depth === 0) and if circle is large enough
-      if (d.depth === 0 && d.r! > 30) {
         // Create a circular path for the text to follow
-        const pathId = `circle-path-${i}`;
+        const pathId = `${idPrefix}circle-path-${i}`;
 
         // Create arc path along the top of the circle
         // Start at -90 degrees (top), arc radius slightly inside the circle
-        const arcRadius = d.r! - 5;
+        const arcRadius = d.r - (fontSize + 4) / scale;
 
         defs.append('path')
           .attr('id', pathId)
           .attr('d', `
-            M ${d.x! - arcRadius}, ${d.y!}
-            A ${arcRadius}, ${arcRadius} 0 0 1 ${d.x! + arcRadius}, ${d.y!}
+            M ${d.x - arcRadius}, ${d.y}
+            A ${arcRadius}, ${arcRadius} 0 0 1 ${d.x + arcRadius}, ${d.y}
           `);
 
-        // Truncate long labels based on circle circumference
-        const maxChars = Math.floor((arcRadius * Math.PI) / (fontSize * 0.6));
+        // Truncate long labels based on circle circumference (on screen)
+        const maxChars = Math.floor((arcRadius * scale * Math.PI) / (fontSize * 0.6));
         const truncatedLabel = label.length > maxChars ? label.slice(0, maxChars - 2) + '...' : label;
 
-        // Add text element with textPath (ink color, serif font)
-        g.append('text')
-          .style('font-size', `${fontSize}px`)
+        // Add text element with textPath (ink color, serif font), with a
+        // paper halo so it stays legible over the rings beneath
+        labels.append('text')
+          .style('font-size', `${fontSize / scale}px`)
           .style('fill', 'var(--ink-fresh)')
-          .style('pointer-events', 'none')
+          .style('stroke', 'var(--paper-pristine)')
+          .style('stroke-width', `${3 / scale}px`)
+          .style('paint-order', 'stroke')
           .style('font-family', 'var(--font-body)')
           .style('font-weight', '600')
           .style('letter-spacing', '-0.01em')
@@ -149,24 +232,172 @@ export function RingsVisualization({ ast, onNodeHover }: RingsVisualizationProps
           .attr('startOffset', '50%')
           .attr('text-anchor', 'middle')
           .text(truncatedLabel);
+      });
+    };
+
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.5, 256])
+      .on('zoom', (event) => {
+        viewport.attr('transform', event.transform);
+        scale = event.transform.k;
+        drawLabels();
+      });
+
+    svg.call(zoom).on('dblclick.zoom', null);
+
+    // Transform that makes a ring fill the viewport
+    const fitTransform = (d: PackNode) => {
+      const k = (Math.min(width, height) - margin * 2) / (d.r * 2);
+      return d3.zoomIdentity
+        .translate(width / 2, height / 2)
+        .scale(k)
+        .translate(-(d.x + margin), -(d.y + margin));
+    };
+
+    const zoomTo = (d: PackNode, animate: boolean) => {
+      focus = d;
+      focusPathRef.current = d.data.path;
+      setTrail(d.ancestors().reverse().map(a => ({ name: getFieldLabel(a.data), path: a.data.path })));
+
+      if (animate) {
+        svg.transition()
+          .duration(750)
+          .ease(d3.easeCubicInOut)
+          .call(zoom.transform, fitTransform(d));
+      } else {
+        svg.call(zoom.transform, fitTransform(d));
       }
+    };
+
+    // Rings with children zoom to themselves, leaves to their parent ring
+    const ringFor = (d: PackNode) => (d.children ? d : d.parent ?? d);
+
+    const findPackNode = (path: string) => nodes.find(d => d.data.path === path);
+
+    // Add circles with ink-based coloring
+    const circles = node.append('circle')
+      .attr('r', d => d.r)
+      // Dashed: invented by error recovery; dotted: a NodeArray, not a real node
+      .attr('stroke-dasharray', d => d.data.isMissing ? '4 3' : d.data.isNodeArray ? '1 3' : null)
+      .style('cursor', 'pointer')
+      .call(paint)
+      .on('mouseenter', function(_, d) {
+        d3.select(this)
+          .attr('fill', 'var(--vermillion)')
+          .attr('fill-opacity', 0.3)
+          .attr('stroke', 'var(--vermillion)')
+          .attr('stroke-width', 2.5);
+        // Highlight corresponding code in editor
+        onNodeHoverRef.current?.(d.data.path);
+      })
+      .on('mouseleave', function() {
+        d3.select<SVGCircleElement, PackNode>(this).call(paint);
+        // Clear highlight in editor
+        onNodeHoverRef.current?.(null);
+      })
+      .on('click', (event, d) => {
+        // Don't let the background handler zoom back out
+        event.stopPropagation();
+        // Select node and its code in the editor, then zoom in on it
+        if (!d.data.isNodeArray) onNodeSelectRef.current?.(d.data.path);
+        zoomTo(ringFor(d), true);
+      });
+
+    // Clicking empty space climbs one level back out
+    svg.on('click', () => {
+      if (focus.parent) zoomTo(focus.parent, true);
     });
 
     // Add tooltips on hover
     node.append('title')
-      .text(d => d.data.name);
+      .text(d => getFieldLabel(d.data));
 
-  }, [ast]);
+    paintRef.current = () => {
+      circles.call(paint);
+
+      // Bring a selection made elsewhere (editor cursor, other view) into view
+      const selected = selectedPathRef.current !== null && findPackNode(selectedPathRef.current);
+      if (selected && !selected.ancestors().includes(focus)) {
+        zoomTo(ringFor(selected), true);
+      }
+    };
+
+    focusOnRef.current = (path, animate) => {
+      const target = findPackNode(path);
+      if (target) zoomTo(target, animate);
+    };
+
+    // Restore the previous focus after a re-parse, if that ring still exists
+    const previousFocus = focusPathRef.current !== null && findPackNode(focusPathRef.current);
+    zoomTo(previousFocus || root, false);
+
+    return () => {
+      svg.on('.zoom', null).on('click', null).interrupt();
+      paintRef.current = null;
+      focusOnRef.current = null;
+    };
+  }, [hierarchy]);
 
   return (
     <div className="tree-container" style={{
       width: '100%',
       height: '100%',
       display: 'flex',
-      justifyContent: 'center',
-      alignItems: 'center',
+      flexDirection: 'column',
+      overflow: 'hidden',
     }}>
-      <svg ref={svgRef}></svg>
+      {/* Breadcrumb trail: ancestors of the focused ring */}
+      <nav
+        aria-label="Focused ring ancestors"
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: 'var(--space-xs)',
+          flexShrink: 0,
+          fontFamily: 'var(--font-mono)',
+          fontSize: '0.875rem',
+        }}
+      >
+        {trail.map((crumb, index) => {
+          const isCurrent = index === trail.length - 1;
+          return (
+            <span key={index} style={{ display: 'inline-flex', alignItems: 'center', gap: 'var(--space-xs)' }}>
+              {index > 0 && <span style={{ color: 'var(--ink-wash)' }}>›</span>}
+              <button
+                type="button"
+                disabled={isCurrent}
+                onClick={() => focusOnRef.current?.(crumb.path, true)}
+                onMouseEnter={() => onNodeHoverRef.current?.(crumb.path)}
+                onMouseLeave={() => onNodeHoverRef.current?.(null)}
+                style={{
+                  padding: '2px var(--space-xs)',
+                  background: isCurrent ? 'var(--paper-weathered)' : 'transparent',
+                  border: '1px solid transparent',
+                  borderRadius: '3px',
+                  color: isCurrent ? 'var(--ink-fresh)' : 'var(--ink-light)',
+                  fontFamily: 'inherit',
+                  fontSize: 'inherit',
+                  fontWeight: isCurrent ? 600 : 400,
+                  cursor: isCurrent ? 'default' : 'pointer',
+                }}
+              >
+                {crumb.name}
+              </button>
+            </span>
+          );
+        })}
+      </nav>
+
+      <div style={{
+        flex: 1,
+        minHeight: 0,
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+      }}>
+        <svg ref={svgRef}></svg>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,127 @@
+import { Binding, Scope, ScopeAnalysis } from "../utils/scopes";
+import { HighlightRange } from "../utils/editorHighlights";
+
+interface ScopesViewProps {
+  scopes: ScopeAnalysis;
+  selectedBinding?: Binding | null;
+  onBindingSelect?: (binding: Binding) => void;
+  onRangeHover?: (range: HighlightRange | null) => void;
+}
+
+function countScopes(scope: Scope): { scopes: number; bindings: number } {
+  return scope.children.reduce(
+    (total, child) => {
+      const counts = countScopes(child);
+      return { scopes: total.scopes + counts.scopes, bindings: total.bindings + counts.bindings };
+    },
+    { scopes: 1, bindings: scope.declarations.length },
+  );
+}
+
+/**
+ * ScopesView Component
+ *
+ * PARSING INSIGHT: Scopes Are Regions of Text
+ * ============================================
+ * Every scope is a stretch of the source - a function body, a block, a
+ * catch clause - and they nest exactly like the tree does, because the
+ * grammar decides where they start and end. Drawn as nested regions, the
+ * rule for resolving a name becomes something you can trace with a finger:
+ * start in the innermost region around the use, and move outwards until a
+ * region lists the name.
+ *
+ * Pick a binding to see every identifier that resolves to it. Two
+ * identifiers with the same spelling in different regions are different
+ * variables, and only one of them lights up.
+ */
+export function ScopesView({ scopes, selectedBinding = null, onBindingSelect, onRangeHover }: ScopesViewProps) {
+  const counts = countScopes(scopes.root);
+
+  const chip = (binding: Binding) => {
+    const writes = binding.references.filter((reference) => reference.isWrite).length;
+    const isSelected = binding === selectedBinding;
+    // Undeclared names have no declaration to point at - show the first use
+    const anchor = binding.path !== null ? binding : binding.references[0];
+
+    return (
+      <button
+        key={`${binding.name}-${binding.from}`}
+        type="button"
+        className={`binding-chip${isSelected ? " selected" : ""}${binding.kind === "implicit" ? " implicit" : ""}`}
+        title={`${binding.references.length} references${writes > 0 ? `, ${writes} writes` : ""}`}
+        onClick={() => onBindingSelect?.(binding)}
+        onMouseEnter={() => onRangeHover?.(anchor ? { from: anchor.from, to: anchor.to } : null)}
+        onMouseLeave={() => onRangeHover?.(null)}
+      >
+        {binding.name}
+        <span className="binding-chip-kind">{binding.kind}</span>
+        <span className="binding-chip-kind">×{binding.references.length}</span>
+      </button>
+    );
+  };
+
+  const region = (scope: Scope) => (
+    <div key={`${scope.path}-${scope.kind}`} className={`scope-region scope-${scope.kind}`}>
+      <div
+        className="scope-header"
+        onMouseEnter={() => onRangeHover?.({ from: scope.from, to: scope.to })}
+        onMouseLeave={() => onRangeHover?.(null)}
+      >
+        <strong>{scope.label}</strong>
+        <span className="specimen-label">
+          {scope.kind} scope · {scope.startLine === scope.endLine
+            ? `line ${scope.startLine}`
+            : `lines ${scope.startLine}–${scope.endLine}`}
+        </span>
+      </div>
+
+      {scope.declarations.length > 0 && (
+        <div className="scope-bindings">{scope.declarations.map(chip)}</div>
+      )}
+
+      {scope.children.map(region)}
+    </div>
+  );
+
+  return (
+    <div style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      flexDirection: "column",
+      gap: "var(--space-sm)",
+    }}>
+      <div className="tree-toolbar">
+        <span className="specimen-label">
+          {counts.scopes} scopes, {counts.bindings} bindings
+          {scopes.implicitGlobals.length > 0 && `, ${scopes.implicitGlobals.length} undeclared`}
+        </span>
+      </div>
+
+      <div
+        className="tree-container"
+        style={{
+          width: "100%",
+          flex: 1,
+          minHeight: 0,
+          overflowY: "auto",
+          boxSizing: "border-box",
+        }}
+      >
+        {region(scopes.root)}
+
+        {scopes.implicitGlobals.length > 0 && (
+          <div className="scope-region scope-implicit">
+            <div className="scope-header">
+              <strong>Undeclared</strong>
+              <span className="specimen-label">
+                globals from the environment (console, window) - or typos
+              </span>
+            </div>
+            <div className="scope-bindings">{scopes.implicitGlobals.map(chip)}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { KeyboardEvent, useRef, useState } from "react";
+import { Specimen, parseTags } from "../utils/specimens";
+import { downloadFile } from "../utils/download";
+
+interface SpecimenLibraryProps {
+  specimens: Specimen[];
+  selectedId: string | null; // Specimen loaded in the editor, if any
+  onSave: (name: string, tags: string[]) => void; // Save the editor's code
+  onLoad: (specimen: Specimen) => void;
+  onUpdate: (id: string, changes: { name?: string; tags?: string[] }) => void;
+  onRemove: (id: string) => void;
+  onImport: (json: string) => { success: true; specimens: Specimen[] } | { success: false; error: string };
+  onExport: () => string;
+  storageError?: boolean;
+}
+
+/**
+ * SpecimenLibrary Component
+ *
+ * "My Specimens": code the user has kept, like pressed plants in a field
+ * notebook. Save the editor's code under a name and tags, rename or retag
+ * it later, and move the whole collection between browsers as a JSON file.
+ * Saved specimens also appear in the example picker, below the presets.
+ */
+export function SpecimenLibrary({
+  specimens,
+  selectedId,
+  onSave,
+  onLoad,
+  onUpdate,
+  onRemove,
+  onImport,
+  onExport,
+  storageError = false,
+}: SpecimenLibraryProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim() || `Specimen ${specimens.length + 1}`;
+    onSave(trimmed, parseTags(tags));
+    setStatus(`Saved "${trimmed}"`);
+    setName("");
+    setTags("");
+    setIsSaving(false);
+  };
+
+  const handleImport = async (file: File) => {
+    const result = onImport(await file.text());
+    setStatus(
+      result.success
+        ? `Imported ${result.specimens.length} ${result.specimens.length === 1 ? "specimen" : "specimens"}`
+        : result.error,
+    );
+  };
+
+  return (
+    <div style={{ marginBottom: "var(--space-md)", flexShrink: 0 }}>
+      <div className="tree-toolbar">
+        <button
+          type="button"
+          className={`field-button${isSaving ? " active" : ""}`}
+          aria-pressed={isSaving}
+          onClick={() => setIsSaving(!isSaving)}
+        >
+          Save specimen
+        </button>
+        <button
+          type="button"
+          className={`field-button${isManaging ? " active" : ""}`}
+          aria-pressed={isManaging}
+          onClick={() => setIsManaging(!isManaging)}
+        >
+          My Specimens ({specimens.length})
+        </button>
+        {status && <span className="specimen-label">{status}</span>}
+        {storageError && (
+          <span className="specimen-label" style={{ color: "var(--vermillion)" }}>
+            Browser storage is full or disabled - export to keep your specimens
+          </span>
+        )}
+      </div>
+
+      {/* Name and tags for the editor's code */}
+      {isSaving && (
+        <form
+          className="tree-toolbar"
+          style={{ marginTop: "var(--space-sm)" }}
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <input
+            className="field-input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`Specimen ${specimens.length + 1}`}
+            aria-label="Specimen name"
+            autoFocus
+            style={{ flex: 1, minWidth: "8rem" }}
+          />
+          <input
+            className="field-input"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            aria-label="Specimen tags"
+            style={{ flex: 1, minWidth: "8rem" }}
+          />
+          <button type="submit" className="field-button">
+            Save
+          </button>
+        </form>
+      )}
+
+      {isManaging && (
+        <div
+          className="paper-elevated"
+          style={{
+            marginTop: "var(--space-sm)",
+            padding: "var(--space-sm) var(--space-md)",
+            border: "2px solid var(--ink-light)",
+            borderRadius: "4px",
+            maxHeight: "16rem",
+            overflowY: "auto",
+          }}
+        >
+          <div className="tree-toolbar" style={{ marginBottom: "var(--space-sm)" }}>
+            <button type="button" className="field-button" onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </button>
+            <button
+              type="button"
+              className="field-button"
+              disabled={specimens.length === 0}
+              onClick={() => downloadFile("arbor-specimens.json", onExport(), "application/json")}
+            >
+              Export JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = ""; // Importing the same file again still fires
+              }}
+            />
+          </div>
+
+          {specimens.length === 0 ? (
+            <p className="specimen-label" style={{ fontStyle: "italic", margin: 0 }}>
+              No specimens yet. Save the editor's code to start a collection.
+            </p>
+          ) : (
+            specimens.map((specimen) => (
+              <SpecimenRow
+                key={specimen.id}
+                specimen={specimen}
+                isLoaded={specimen.id === selectedId}
+                onLoad={() => onLoad(specimen)}
+                onUpdate={(changes) => onUpdate(specimen.id, changes)}
+                onRemove={() => {
+                  if (window.confirm(`Delete the specimen "${specimen.name}"?`)) onRemove(specimen.id);
+                }}
+              />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SpecimenRowProps {
+  specimen: Specimen;
+  isLoaded: boolean;
+  onLoad: () => void;
+  onUpdate: (changes: { name?: string; tags?: string[] }) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One specimen: its name and tags are edited in place and saved when the
+ * field loses focus (or on Enter).
+ */
+function SpecimenRow({ specimen, isLoaded, onLoad, onUpdate, onRemove }: SpecimenRowProps) {
+  const [name, setName] = useState(specimen.name);
+  const [tags, setTags] = useState(specimen.tags.join(", "));
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== specimen.name) {
+      onUpdate({ name: trimmed });
+    } else {
+      setName(specimen.name);
+    }
+  };
+
+  const commitTags = () => {
+    const parsed = parseTags(tags);
+    if (parsed.join(",") !== specimen.tags.join(",")) onUpdate({ tags: parsed });
+    setTags(parsed.join(", "));
+  };
+
+  const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <div className="tree-toolbar" style={{ padding: "var(--space-xs) 0", borderBottom: "1px solid var(--paper-stained)" }}>
+      <input
+        className="field-input"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={commitOnEnter}
+        aria-label="Specimen name"
+        style={{ flex: 2, minWidth: "8rem", fontWeight: isLoaded ? 600 : undefined }}
+      />
+      <input
+        className="field-input"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={commitTags}
+        onKeyDown={commitOnEnter}
+        placeholder="Tags"
+        aria-label="Specimen tags"
+        style={{ flex: 2, minWidth: "6rem" }}
+      />
+      <button type="button" className="field-button" onClick={onLoad} disabled={isLoaded}>
+        {isLoaded ? "Loaded" : "Load"}
+      </button>
+      <button type="button" className="field-button" onClick={onRemove} aria-label={`Delete ${specimen.name}`}>
+        Delete
+      </button>
+    </div>
+  );
+}
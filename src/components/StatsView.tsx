@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { TreeStats } from "../utils/treeStats";
+import { HighlightRange } from "../utils/editorHighlights";
+
+interface StatsViewProps {
+  stats: TreeStats | null; // null until the worker has measured the tree
+  selector: string; // The query bar's selector, to mark the bar it came from
+  onSelectorChange: (selector: string) => void;
+  onFunctionSelect?: (path: string) => void;
+  onRangeHover?: (range: HighlightRange | null) => void;
+  onExport: () => void;
+}
+
+// Kinds listed before "Show all"
+const TOP_KINDS = 15;
+
+// Past this, a function has more paths than its tests are likely to cover
+const HIGH_COMPLEXITY = 10;
+
+interface Bar {
+  label: string;
+  count: number;
+  selector: string;
+}
+
+/**
+ * StatsView Component
+ *
+ * The weight and shape of the tree, and how tangled each function is -
+ * measured in the worker, against the real SourceFile, after every parse.
+ * Picking a bar puts a selector for its nodes in the query bar, so they
+ * light up in the editor and the tree views; pick it again to clear it.
+ */
+export function StatsView({ stats, selector, onSelectorChange, onFunctionSelect, onRangeHover, onExport }: StatsViewProps) {
+  const [showAllKinds, setShowAllKinds] = useState(false);
+
+  if (!stats) {
+    return (
+      <p className="specimen-label" style={{ fontStyle: "italic" }}>
+        Measuring specimen…
+      </p>
+    );
+  }
+
+  const histogram = (bars: Bar[]) => {
+    const max = Math.max(1, ...bars.map((bar) => bar.count));
+    return (
+      <div className="stats-histogram">
+        {bars.map((bar) => {
+          const isActive = bar.selector === selector;
+          return (
+            <button
+              key={bar.label}
+              type="button"
+              className={`stats-bar${isActive ? " active" : ""}`}
+              aria-pressed={isActive}
+              title={isActive ? "Clear the highlight" : `Highlight ${bar.count} × ${bar.label}`}
+              onClick={() => onSelectorChange(isActive ? "" : bar.selector)}
+            >
+              <span className="stats-bar-label">{bar.label}</span>
+              <span className="stats-bar-track">
+                <span className="stats-bar-fill" style={{ width: `${(bar.count / max) * 100}%` }} />
+              </span>
+              <span className="stats-bar-count">{bar.count}</span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const categoryBars = stats.categories
+    .filter((category) => category.count > 0)
+    .map((category) => ({ label: category.category, count: category.count, selector: category.kinds.join(", ") }));
+  const kindBars = (showAllKinds ? stats.kinds : stats.kinds.slice(0, TOP_KINDS)).map((kind) => ({
+    label: kind.name,
+    count: kind.count,
+    selector: kind.name,
+  }));
+
+  return (
+    <div style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      flexDirection: "column",
+      gap: "var(--space-sm)",
+    }}>
+      <div className="tree-toolbar">
+        <span className="specimen-label">
+          {stats.totalNodes} nodes · depth {stats.maxDepth} · {stats.leaves} leaves · branching{" "}
+          {stats.branching.average.toFixed(2)} (max {stats.branching.max}) · {stats.functions.length} functions
+        </span>
+        <button type="button" className="field-button" onClick={onExport} style={{ marginLeft: "auto" }}>
+          Export CSV
+        </button>
+      </div>
+
+      <div
+        className="tree-container"
+        style={{
+          width: "100%",
+          flex: 1,
+          minHeight: 0,
+          overflowY: "auto",
+          boxSizing: "border-box",
+        }}
+      >
+        <h3 className="stats-heading">By category</h3>
+        {histogram(categoryBars)}
+
+        <h3 className="stats-heading">By kind</h3>
+        {histogram(kindBars)}
+        {stats.kinds.length > TOP_KINDS && (
+          <button type="button" className="node-link" onClick={() => setShowAllKinds(!showAllKinds)}>
+            {showAllKinds ? `Show the top ${TOP_KINDS}` : `Show all ${stats.kinds.length} kinds`}
+          </button>
+        )}
+
+        <h3 className="stats-heading">Functions</h3>
+        {stats.functions.length === 0 ? (
+          <p className="specimen-label" style={{ fontStyle: "italic" }}>
+            No functions in this specimen.
+          </p>
+        ) : (
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th>Function</th>
+                <th>Line</th>
+                <th title="Nodes inside it, nested functions not included">Nodes</th>
+                <th title="Paths through it: 1 + each if, loop, case, catch, ?:, &&, || and ??">Complexity</th>
+                <th title="Deepest stack of nested ifs, loops, switches and trys">Nesting</th>
+              </tr>
+            </thead>
+            <tbody onMouseLeave={() => onRangeHover?.(null)}>
+              {stats.functions.map((fn) => (
+                <tr
+                  key={fn.path}
+                  onClick={() => onFunctionSelect?.(fn.path)}
+                  onMouseEnter={() => onRangeHover?.({ from: fn.start, to: fn.end })}
+                >
+                  <td>
+                    {fn.name} <span className="binding-chip-kind">{fn.kind}</span>
+                  </td>
+                  <td>{fn.line}</td>
+                  <td>{fn.nodes}</td>
+                  <td className={fn.complexity > HIGH_COMPLEXITY ? "stats-high" : undefined}>{fn.complexity}</td>
+                  <td>{fn.nesting}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
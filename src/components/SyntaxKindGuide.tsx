@@ -0,0 +1,209 @@
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import "./SyntaxKindGuide.css";
+import { exampleFields, GuideEntry, guideCategories, guideEntries, guideEntriesByName } from "../utils/syntaxKindGuide";
+import { languageModes } from "../utils/parser";
+import { CustomSelect } from "./CustomSelect";
+
+interface SyntaxKindGuideProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedName: string | null; // Kind name shown in the detail card
+  onSelect: (name: string | null) => void;
+  onLoadSnippet: (entry: GuideEntry) => void;
+}
+
+const ALL_CATEGORIES = "All";
+
+/**
+ * Syntax Kind Guide Component
+ *
+ * PARSING INSIGHT: Reading the Kind Names
+ * ========================================
+ * SyntaxKind is one enum for everything the scanner and parser produce,
+ * and its names follow a pattern: *Token for punctuation and operators,
+ * *Keyword for reserved words, *Trivia for what sits between tokens,
+ * *Expression, *Statement and *Declaration for the grammar's big three,
+ * *Type for type syntax and JSDoc* for doc comments. The guide groups them
+ * that way, says what each one is, and shows a snippet that produces it -
+ * along with the named fields the parser filled in for it.
+ */
+export function SyntaxKindGuide({ isOpen, onClose, selectedName, onSelect, onLoadSnippet }: SyntaxKindGuideProps) {
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, onClose]);
+
+  const needle = search.trim().toLowerCase();
+  const sections = useMemo(
+    () =>
+      guideCategories
+        .filter((title) => category === ALL_CATEGORIES || title === category)
+        .map((title) => ({
+          title,
+          entries: guideEntries.filter(
+            (entry) =>
+              entry.category === title &&
+              (!needle ||
+                entry.name.toLowerCase().includes(needle) ||
+                entry.description.toLowerCase().includes(needle) ||
+                entry.category.toLowerCase().includes(needle))
+          ),
+        }))
+        .filter((section) => section.entries.length > 0),
+    [category, needle]
+  );
+
+  if (!isOpen) return null;
+
+  const selected = selectedName !== null ? guideEntriesByName.get(selectedName) : undefined;
+  const shownCount = sections.reduce((count, section) => count + section.entries.length, 0);
+
+  return (
+    <aside className="side-panel no-print" aria-label="Syntax kind guide">
+      <div className="side-panel-header">
+        <div>
+          <h2 className="side-panel-title">Field Guide to Syntax Kinds</h2>
+          <p className="specimen-label" style={{ margin: 0 }}>
+            {shownCount === guideEntries.length
+              ? `${guideEntries.length} kinds`
+              : `${shownCount} of ${guideEntries.length} kinds`}
+          </p>
+        </div>
+        <button type="button" className="field-button" onClick={onClose} aria-label="Close the guide">
+          ×
+        </button>
+      </div>
+
+      <input
+        type="search"
+        className="field-input"
+        placeholder="Search names and descriptions…"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        aria-label="Search syntax kinds"
+        style={{ marginBottom: "var(--space-sm)" }}
+      />
+      <CustomSelect
+        label="Category:"
+        value={category}
+        onChange={setCategory}
+        options={[ALL_CATEGORIES, ...guideCategories].map((title) => ({ value: title, label: title }))}
+      />
+
+      {selected && (
+        <KindDetail entry={selected} onLoadSnippet={onLoadSnippet} onClose={() => onSelect(null)} />
+      )}
+
+      <div className="guide-sections">
+        {sections.length === 0 && (
+          <p className="specimen-label" style={{ fontStyle: "italic" }}>
+            No kinds match "{search}".
+          </p>
+        )}
+        {sections.map((section) => (
+          <section key={section.title} className="guide-section">
+            <div className="guide-section-title">{section.title}</div>
+            {section.entries.map((entry) => (
+              <button
+                key={entry.name}
+                type="button"
+                className={`guide-entry${entry.name === selectedName ? " selected" : ""}`}
+                onClick={() => onSelect(entry.name === selectedName ? null : entry.name)}
+              >
+                <span className="guide-entry-name">{entry.name}</span>
+                <span className="guide-entry-description">{entry.description.replace(/`/g, "")}</span>
+              </button>
+            ))}
+          </section>
+        ))}
+      </div>
+    </aside>
+  );
+}
+
+interface KindDetailProps {
+  entry: GuideEntry;
+  onLoadSnippet: (entry: GuideEntry) => void;
+  onClose: () => void;
+}
+
+function KindDetail({ entry, onLoadSnippet, onClose }: KindDetailProps) {
+  const fields = useMemo(() => exampleFields(entry), [entry]);
+
+  return (
+    <div className="guide-detail paper-elevated">
+      <div className="guide-detail-header">
+        <strong>{entry.name}</strong>
+        <button type="button" className="field-button" onClick={onClose} aria-label="Close details">
+          ×
+        </button>
+      </div>
+      <p className="specimen-label" style={{ margin: 0 }}>
+        {entry.category} · kind {entry.kind}
+      </p>
+      <p className="guide-description">{withCode(entry.description)}</p>
+
+      {entry.snippet === null ? (
+        <p className="specimen-label" style={{ margin: 0, fontStyle: "italic" }}>
+          The parser never builds one from source code, so there's no snippet.
+        </p>
+      ) : (
+        <>
+          <h3 className="side-panel-subtitle">
+            Example ({languageModes[entry.language].label}
+            {entry.errors && ", with syntax errors"})
+          </h3>
+          <pre className="guide-snippet">{entry.snippet}</pre>
+          <button type="button" className="field-button" onClick={() => onLoadSnippet(entry)}>
+            Load into editor
+          </button>
+        </>
+      )}
+
+      {fields !== null && (
+        <>
+          <h3 className="side-panel-subtitle">Child fields</h3>
+          {fields.length === 0 ? (
+            <p className="specimen-label" style={{ margin: 0, fontStyle: "italic" }}>
+              None - it's a leaf.
+            </p>
+          ) : (
+            <dl className="guide-fields">
+              {fields.map((field) => (
+                <div key={field.name} className="guide-field">
+                  <dt>{field.name}</dt>
+                  <dd>
+                    {field.value === null ? (
+                      <span className="guide-field-absent">not in this example</span>
+                    ) : Array.isArray(field.value) ? (
+                      `[${field.value.join(", ")}]`
+                    ) : (
+                      field.value
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </>
+      )}
+      {fields === null && entry.snippet !== null && (
+        <p className="specimen-label" style={{ margin: "var(--space-sm) 0 0", fontStyle: "italic" }}>
+          No child fields - the tree doesn't keep it as a node, but the token stream shows it.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// `backticked` spans of a description, set as code
+function withCode(text: string): ReactNode[] {
+  return text.split(/`([^`]+)`/).map((part, i) => (i % 2 === 1 ? <code key={i}>{part}</code> : part));
+}
@@ -0,0 +1,178 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { getNodeTypeName } from "../utils/parser";
+import { TokenInfo } from "../utils/tokens";
+import { HighlightRange } from "../utils/editorHighlights";
+
+interface TokenStreamProps {
+  tokens: TokenInfo[];
+  selectedRange?: HighlightRange | null; // Span of the selected AST node
+  onTokenHover?: (token: TokenInfo | null) => void;
+  onTokenSelect?: (token: TokenInfo) => void;
+}
+
+// Fixed row height, so the visible window follows from the scroll offset
+const ROW_HEIGHT = 32;
+const OVERSCAN = 12;
+const MAX_TEXT_LENGTH = 80;
+
+// Make whitespace visible: a trivia token of spaces would otherwise look empty
+function displayText(text: string): string {
+  const visible = text
+    .replace(/\r\n|\n|\r/g, "↵")
+    .replace(/\t/g, "→")
+    .replace(/ /g, "·");
+  return visible.length > MAX_TEXT_LENGTH ? `${visible.slice(0, MAX_TEXT_LENGTH - 1)}…` : visible;
+}
+
+function overlaps(token: TokenInfo, range: HighlightRange): boolean {
+  return token.start < range.to && token.end > range.from;
+}
+
+/**
+ * TokenStream Component
+ *
+ * PARSING INSIGHT: Lexical Analysis
+ * ==================================
+ * Before there's a tree, there's a stream. The scanner (lexer) walks the
+ * text left to right and chops it into tokens: keywords, identifiers,
+ * punctuation, literals - and trivia, the whitespace and comments that the
+ * parser will step over but formatters and doc tools care about.
+ *
+ *   const x = 5;  →  ConstKeyword · Identifier · EqualsToken · NumericLiteral · SemicolonToken
+ *
+ * Syntax highlighters stop here: colouring code only needs the token kinds.
+ * Everything else - linters, formatters, compilers - hands this stream to
+ * the parser to build the tree. Select a node to see which run of tokens it
+ * was built from.
+ */
+export function TokenStream({ tokens, selectedRange = null, onTokenHover, onTokenSelect }: TokenStreamProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [showTrivia, setShowTrivia] = useState(true);
+
+  const rows = useMemo(
+    () => (showTrivia ? tokens : tokens.filter((token) => !token.isTrivia)),
+    [tokens, showTrivia],
+  );
+  const triviaCount = useMemo(() => tokens.filter((token) => token.isTrivia).length, [tokens]);
+
+  // Track the viewport size so we know how many rows fit
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Bring the selected node's first token into view
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !selectedRange) return;
+
+    const index = rows.findIndex((token) => overlaps(token, selectedRange));
+    if (index === -1) return;
+
+    const rowTop = index * ROW_HEIGHT;
+    const isVisible =
+      rowTop >= container.scrollTop &&
+      rowTop + ROW_HEIGHT <= container.scrollTop + container.clientHeight;
+    if (!isVisible) {
+      container.scrollTo({
+        top: rowTop - container.clientHeight / 2 + ROW_HEIGHT / 2,
+        behavior: "smooth",
+      });
+    }
+  }, [rows, selectedRange]);
+
+  // Only the rows in (or just around) the viewport are rendered
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN,
+  );
+  const visibleRows = rows.slice(firstIndex, lastIndex);
+
+  return (
+    <div style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      flexDirection: "column",
+      gap: "var(--space-sm)",
+    }}>
+      <div className="tree-toolbar">
+        <label className="specimen-label" style={{ display: "flex", alignItems: "center", gap: "var(--space-xs)" }}>
+          <input
+            type="checkbox"
+            checked={showTrivia}
+            onChange={(e) => setShowTrivia(e.target.checked)}
+          />
+          Show trivia
+        </label>
+        <span className="specimen-label">
+          {tokens.length - triviaCount} tokens, {triviaCount} trivia
+        </span>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="tree-container"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onMouseLeave={() => onTokenHover?.(null)}
+        style={{
+          width: "100%",
+          flex: 1,
+          minHeight: 0,
+          overflowY: "auto",
+          boxSizing: "border-box",
+        }}
+      >
+        <div style={{ height: firstIndex * ROW_HEIGHT }} />
+
+        {visibleRows.map((token) => {
+          const className = [
+            "token-row",
+            token.isTrivia && "trivia",
+            selectedRange && overlaps(token, selectedRange) && "highlighted",
+          ]
+            .filter(Boolean)
+            .join(" ");
+
+          return (
+            <div
+              key={token.start}
+              className={className}
+              style={{ height: ROW_HEIGHT }}
+              onMouseEnter={() => onTokenHover?.(token)}
+              onClick={() => onTokenSelect?.(token)}
+              title={`${getNodeTypeName(token.kind)} ${token.start}–${token.end}`}
+            >
+              <span className="token-position">
+                {token.line}:{token.column}
+              </span>
+              <span>
+                {getNodeTypeName(token.kind)}
+                {token.isRescanned && (
+                  <span
+                    className="token-badge"
+                    title="The scanner read this differently at first; the parser asked it to rescan"
+                  >
+                    rescanned
+                  </span>
+                )}
+              </span>
+              <span className="token-text">{displayText(token.text)}</span>
+            </div>
+          );
+        })}
+
+        <div style={{ height: (rows.length - lastIndex) * ROW_HEIGHT }} />
+      </div>
+    </div>
+  );
+}
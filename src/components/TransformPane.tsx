@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import { CodeEditor } from "./CodeEditor";
+import { ASTNodes } from "./ASTNodes";
+import { ParseOptions } from "../utils/parser";
+import { indexSyntaxTree } from "../utils/syntaxTree";
+import { nodeRange } from "../utils/editorHighlights";
+import { transformerPresets } from "../utils/transformers";
+import { useTransform } from "../hooks/useTransform";
+
+interface TransformPaneProps {
+  sourceCode: string;
+  options: ParseOptions;
+}
+
+/**
+ * TransformPane Component
+ *
+ * PARSING INSIGHT: Parse → Transform → Print
+ * ===========================================
+ * Every transpiler is the same three steps. Babel, tsc and esbuild parse
+ * the code into a tree, run transformers that each return a changed tree,
+ * then print the result back out as text:
+ *
+ *   (x) => x * 2   →   ArrowFunction → FunctionExpression   →   function (x) { return x * 2; }
+ *
+ * A transformer never edits text. It visits nodes (ts.visitEachChild) and
+ * returns a replacement for each - the same node, a new one built with
+ * context.factory, or undefined to remove it. The printer (ts.createPrinter)
+ * decides spacing and punctuation, which is why the output is formatted
+ * its own way no matter how the input looked.
+ */
+export function TransformPane({ sourceCode, options }: TransformPaneProps) {
+  const [presetName, setPresetName] = useState(transformerPresets[0].name);
+  const [transformerCode, setTransformerCode] = useState(transformerPresets[0].code);
+  const [hoveredPath, setHoveredPath] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const { result, isRunning } = useTransform(sourceCode, options, transformerCode, true);
+
+  const nodesByPath = useMemo(
+    () => (result?.success ? indexSyntaxTree(result.tree) : null),
+    [result],
+  );
+  const hoveredNode = (hoveredPath !== null && nodesByPath?.get(hoveredPath)) || null;
+  const selectedNode = (selectedPath !== null && nodesByPath?.get(selectedPath)) || null;
+
+  const handlePresetChange = (name: string) => {
+    const preset = transformerPresets.find((p) => p.name === name);
+    if (!preset) return;
+    setPresetName(name);
+    setTransformerCode(preset.code);
+  };
+
+  const handleTransformerChange = (code: string) => {
+    setTransformerCode(code);
+    const preset = transformerPresets.find((p) => p.code === code);
+    setPresetName(preset ? preset.name : "Custom");
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "var(--space-sm)", height: "100%", minHeight: 0 }}>
+      <div className="tree-toolbar">
+        <label className="specimen-label" htmlFor="transformer-preset">Transformer</label>
+        <select
+          id="transformer-preset"
+          className="field-input"
+          value={presetName}
+          onChange={(e) => handlePresetChange(e.target.value)}
+        >
+          {transformerPresets.map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+          {presetName === "Custom" && <option value="Custom">Custom</option>}
+        </select>
+        {isRunning && (
+          <span className="specimen-label" style={{ fontStyle: "italic" }}>Transforming…</span>
+        )}
+      </div>
+
+      {/* The transformer itself: a function body that receives ts */}
+      <div style={{ flex: 2, minHeight: 0, display: "flex", flexDirection: "column" }}>
+        <CodeEditor
+          value={transformerCode}
+          label="Transformer (returns a TransformerFactory):"
+          onChange={handleTransformerChange}
+          language="js"
+        />
+      </div>
+
+      {result && !result.success && (
+        <div
+          className="paper-elevated"
+          style={{
+            padding: "var(--space-sm) var(--space-md)",
+            border: "2px solid var(--vermillion)",
+            borderRadius: "4px",
+            fontFamily: "var(--font-mono)",
+            fontSize: "0.875rem",
+            color: "var(--vermillion)",
+            flexShrink: 0,
+          }}
+        >
+          {result.error}
+        </div>
+      )}
+
+      {result?.success && (
+        <>
+          {result.diagnostics.length > 0 && (
+            <div className="specimen-label" style={{ color: "var(--vermillion)" }}>
+              {result.diagnostics.join(" · ")}
+            </div>
+          )}
+
+          {/* Printed output beside the tree it parses back into */}
+          <div style={{ flex: 3, minHeight: 0, display: "flex", gap: "var(--space-sm)" }}>
+            <div style={{ flex: 1, minWidth: 0, display: "flex", flexDirection: "column" }}>
+              <CodeEditor
+                value={result.code}
+                label="Printed output:"
+                readOnly
+                language={options.language}
+                hoveredRange={hoveredNode ? nodeRange(hoveredNode) : null}
+                selectedNode={selectedNode}
+                scrollToSelection
+              />
+            </div>
+            <div style={{ flex: 1, minWidth: 0, display: "flex", flexDirection: "column" }}>
+              <span className="specimen-label">Output AST</span>
+              <ASTNodes
+                tree={result.tree}
+                selectedPath={selectedPath}
+                onNodeHover={setHoveredPath}
+                onNodeSelect={setSelectedPath}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
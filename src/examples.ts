@@ -8,14 +8,19 @@
  * how different coding choices create different tree structures.
  */
 
+import { ParseOptions } from "./utils/parser";
+
 export interface Example {
   name: string;
   code: string;
+  // Parser settings the example is meant to be read with (defaults fill the rest)
+  parseOptions?: Partial<ParseOptions>;
 }
 
 export const examples: Example[] = [
   {
     name: "Hello World",
+    parseOptions: { language: "ts" },
     code: `/**
  * Hello World - Your First AST
  *
@@ -30,6 +35,7 @@ function greet() {
   },
   {
     name: "API Handler",
+    parseOptions: { language: "ts" },
     code: `/**
  * API Handler with Error Handling
  *
@@ -55,6 +61,7 @@ async function fetchUser(userId: string) {
   },
   {
     name: "Switch/Case Router",
+    parseOptions: { language: "ts" },
     code: `/**
  * Switch Statement Router
  *
@@ -86,6 +93,7 @@ function handleAction(action: string, payload: any) {
   },
   {
     name: "FizzBuzz: Imperative",
+    parseOptions: { language: "ts" },
     code: `/**
  * FizzBuzz: Imperative Style
  *
@@ -109,6 +117,7 @@ function fizzBuzz(n: number) {
   },
   {
     name: "FizzBuzz: Functional",
+    parseOptions: { language: "ts" },
     code: `/**
  * FizzBuzz: Functional Style
  *
@@ -128,6 +137,7 @@ const fizzBuzz = (n: number) =>
   },
   {
     name: "FizzBuzz: Composable",
+    parseOptions: { language: "ts" },
     code: `/**
  * FizzBuzz: Composable Style
  *
@@ -157,21 +167,23 @@ function fizzBuzz(n: number) {
   },
   {
     name: "Generic Arrow Function",
+    parseOptions: { language: "ts" },
     code: `/**
  * TSX Parser Quirk: Generic Arrow Functions
  *
- * Arrow function generics need a trailing comma in TSX mode.
- * Without it: <T> looks like a JSX opening tag!
+ * In TypeScript mode, <T> is unambiguously a type parameter list.
+ * Switch the language to TSX and <T> looks like a JSX opening tag!
  *
- * Try removing the comma to see how the AST changes.
+ * In TSX mode, add a trailing comma (<T,>) to see the AST recover.
  */
 
-const identity = <T,>(x: T): T => x;
+const identity = <T>(x: T): T => x;
 
 const result = identity<string>("hello");`,
   },
   {
     name: "Type Definitions",
+    parseOptions: { language: "ts" },
     code: `/**
  * Type Definitions
  *
@@ -194,6 +206,7 @@ type ApiResponse<T> = {
   },
   {
     name: "React Component",
+    parseOptions: { language: "tsx" },
     code: `/**
  * React Component with JSX
  *
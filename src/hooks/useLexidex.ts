@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ParsedDocument } from '../utils/parseDocument';
+import { collectOccurrences, Lexidex, loadLexidex, Occurrence, recordSightings, saveLexidex } from '../utils/lexidex';
+import { Leximon } from '../utils/leximons';
+
+/**
+ * The Lexidex: every species found across parses, kept in localStorage,
+ * plus where each one appears in the current document.
+ *
+ * Each new document is checked against it. Newly found Leximons queue up
+ * in `discoveries` for the page to announce; Gliphs are added quietly, as
+ * the spec asks. storageError is set when the browser refused a write.
+ */
+export function useLexidex(document: ParsedDocument | null) {
+  const [lexidex, setLexidex] = useState<Lexidex>(loadLexidex);
+  const [discoveries, setDiscoveries] = useState<Leximon[]>([]);
+  const [storageError, setStorageError] = useState(false);
+  const isFirstRenderRef = useRef(true);
+
+  const occurrences = useMemo(
+    () => (document ? collectOccurrences(document.tree, document.tokens) : new Map<string, Occurrence[]>()),
+    [document],
+  );
+  // The code this document was parsed from - the editor may be ahead of it
+  const source = useMemo(() => document?.tokens.map((token) => token.text).join('') ?? '', [document]);
+
+  // Runs again after its own update, finding nothing new the second time
+  useEffect(() => {
+    if (!document) return;
+    const result = recordSightings(lexidex, occurrences, source);
+    if (result.lexidex === lexidex) return;
+    setLexidex(result.lexidex);
+    const leximons = result.discovered.filter((species): species is Leximon => species.type === 'leximon');
+    if (leximons.length > 0) {
+      setDiscoveries((queued) => [...queued, ...leximons.filter((leximon) => !queued.includes(leximon))]);
+    }
+  }, [document, occurrences, source, lexidex]);
+
+  useEffect(() => {
+    // Nothing to write back on load
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false;
+      return;
+    }
+    setStorageError(!saveLexidex(lexidex));
+  }, [lexidex]);
+
+  const dismissDiscoveries = useCallback(() => setDiscoveries([]), []);
+
+  return { lexidex, occurrences, source, discoveries, storageError, dismissDiscoveries };
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ParsedDocument } from '../utils/parseDocument';
+import { ParseError, ParseOptions, TextEdit } from '../utils/parser';
+import type {
+  ParseRequest,
+  QueryName,
+  QueryRequest,
+  WorkerQueries,
+  WorkerResponse,
+} from '../workers/parse.worker';
+
+// Wait for a pause in typing before re-parsing
+const PARSE_DEBOUNCE_MS = 150;
+
+/**
+ * Parse source code in the background.
+ *
+ * Returns the latest finished parse plus whether a newer one is on its way.
+ * While parsing, the previous document stays in place so the views keep
+ * showing the last tree instead of flashing empty. Responses to requests
+ * that have since been superseded are dropped.
+ *
+ * Report the editor's changes through recordEdits as they happen; they're
+ * sent along with the next request so the worker can reparse incrementally.
+ *
+ * runQuery asks the worker about the current tree (see WorkerQueries) and
+ * resolves with its answer, or null if nothing has parsed successfully yet
+ * (or the worker failed while answering).
+ */
+export function useParsedDocument(sourceCode: string, options: ParseOptions) {
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestRef = useRef(0);
+  const hasDocumentRef = useRef(false);
+  const pendingEditsRef = useRef<TextEdit[]>([]);
+  const queryIdRef = useRef(0);
+  const pendingQueriesRef = useRef(new Map<number, (result: unknown) => void>());
+  const [document, setDocument] = useState<ParsedDocument | ParseError | null>(null);
+  const [isParsing, setIsParsing] = useState(true);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/parse.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    const pendingQueries = pendingQueriesRef.current;
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+
+      if (response.type === 'query') {
+        pendingQueries.get(response.id)?.(response.result);
+        pendingQueries.delete(response.id);
+        return;
+      }
+
+      // A newer request is in flight - this result is already out of date
+      if (response.id !== latestRequestRef.current) return;
+
+      hasDocumentRef.current = true;
+      setDocument(response.document);
+      setIsParsing(false);
+    });
+
+    // An exception the worker didn't catch, or a reply that couldn't be
+    // cloned: no answer is coming for anything in flight, so settle it all
+    const handleFailure = (error: string) => {
+      pendingQueries.forEach((resolve) => resolve(null));
+      pendingQueries.clear();
+      setDocument({ success: false, error });
+      setIsParsing(false);
+    };
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      handleFailure(`The parser crashed: ${event.message || 'unknown error'}`);
+    });
+    worker.addEventListener('messageerror', () => {
+      handleFailure('The parser sent a reply that could not be read');
+    });
+
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pendingQueries.forEach((resolve) => resolve(null));
+      pendingQueries.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const id = ++latestRequestRef.current;
+    setIsParsing(true);
+
+    // First parse goes out immediately; after that, debounce keystrokes
+    const timer = setTimeout(
+      () => {
+        const request: ParseRequest = {
+          type: 'parse',
+          id,
+          sourceCode,
+          options,
+          edits: pendingEditsRef.current,
+        };
+        pendingEditsRef.current = [];
+        workerRef.current?.postMessage(request);
+      },
+      hasDocumentRef.current ? PARSE_DEBOUNCE_MS : 0,
+    );
+
+    return () => clearTimeout(timer);
+  }, [sourceCode, options]);
+
+  const recordEdits = useCallback((edits: TextEdit[]) => {
+    pendingEditsRef.current = [...pendingEditsRef.current, ...edits];
+  }, []);
+
+  const runQuery = useCallback(
+    <K extends QueryName>(
+      query: K,
+      params: WorkerQueries[K]['params'],
+    ): Promise<WorkerQueries[K]['result'] | null> => {
+      const worker = workerRef.current;
+      if (!worker) return Promise.resolve(null);
+
+      const id = ++queryIdRef.current;
+      return new Promise((resolve) => {
+        pendingQueriesRef.current.set(id, resolve as (result: unknown) => void);
+        const request: QueryRequest<K> = { type: 'query', id, query, params };
+        worker.postMessage(request);
+      });
+    },
+    [],
+  );
+
+  return { document, isParsing, recordEdits, runQuery };
+}
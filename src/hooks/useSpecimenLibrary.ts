@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ParseOptions } from '../utils/parser';
+import {
+  createSpecimenId,
+  exportSpecimens,
+  importSpecimens,
+  loadSpecimens,
+  saveSpecimens,
+  Specimen,
+} from '../utils/specimens';
+
+/**
+ * The user's specimen library, kept in localStorage.
+ *
+ * Every change is written back as it happens. storageError is set when
+ * the browser refused a write (quota, disabled storage), so the page can
+ * say the library won't survive a reload.
+ */
+export function useSpecimenLibrary() {
+  const [specimens, setSpecimens] = useState<Specimen[]>(loadSpecimens);
+  const [storageError, setStorageError] = useState(false);
+  const isFirstRenderRef = useRef(true);
+
+  useEffect(() => {
+    // Nothing to write back on load
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false;
+      return;
+    }
+    setStorageError(!saveSpecimens(specimens));
+  }, [specimens]);
+
+  const save = useCallback((name: string, tags: string[], code: string, parseOptions: ParseOptions) => {
+    const specimen: Specimen = { id: createSpecimenId(), name, tags, code, parseOptions, savedAt: Date.now() };
+    setSpecimens((current) => [...current, specimen]);
+    return specimen;
+  }, []);
+
+  const update = useCallback((id: string, changes: Partial<Omit<Specimen, 'id'>>) => {
+    setSpecimens((current) =>
+      current.map((specimen) => (specimen.id === id ? { ...specimen, ...changes, savedAt: Date.now() } : specimen)),
+    );
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setSpecimens((current) => current.filter((specimen) => specimen.id !== id));
+  }, []);
+
+  // Imported specimens are added alongside the existing ones; an entry with
+  // an id already in the library replaces it (re-importing an export)
+  const importJson = useCallback((json: string) => {
+    const result = importSpecimens(json);
+    if (result.success) {
+      setSpecimens((current) => {
+        const incoming = new Map(result.specimens.map((specimen) => [specimen.id, specimen]));
+        const kept = current.filter((specimen) => !incoming.has(specimen.id));
+        return [...kept, ...incoming.values()];
+      });
+    }
+    return result;
+  }, []);
+
+  const exportJson = useCallback(() => exportSpecimens(specimens), [specimens]);
+
+  return { specimens, storageError, save, update, remove, importJson, exportJson };
+}
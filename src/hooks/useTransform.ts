@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { ParseOptions } from '../utils/parser';
+import type { TransformRequest, TransformResponse, TransformResult } from '../workers/transform.worker';
+import { createTransformSandbox, TransformSandbox } from '../workers/transformSandbox';
+
+// Wait for a pause in typing before running the transformer again
+const TRANSFORM_DEBOUNCE_MS = 300;
+
+// A transformer that hasn't answered by now is assumed to be stuck
+const TRANSFORM_TIMEOUT_MS = 2000;
+
+/**
+ * Run a user-written transformer over the source in a worker sandboxed in
+ * an opaque-origin iframe, with no network (see createTransformSandbox).
+ *
+ * A sandbox that misses the timeout is terminated - the only way to stop an
+ * infinite loop - and a fresh one is started for the next run. The clock
+ * starts once the worker has loaded, so loading it doesn't count against
+ * the transformer. Nothing runs while enabled is false.
+ */
+export function useTransform(
+  sourceCode: string,
+  options: ParseOptions,
+  transformerCode: string,
+  enabled: boolean,
+) {
+  const sandboxRef = useRef<TransformSandbox | null>(null);
+  const latestRequestRef = useRef(0);
+  const [result, setResult] = useState<TransformResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Tear the sandbox down with the component
+  useEffect(() => () => sandboxRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const id = ++latestRequestRef.current;
+    let isCurrent = true;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const timer = setTimeout(() => {
+      setIsRunning(true);
+
+      if (!sandboxRef.current) sandboxRef.current = createTransformSandbox();
+      const sandbox = sandboxRef.current;
+
+      const stop = (error: string) => {
+        sandbox.terminate();
+        if (sandboxRef.current === sandbox) sandboxRef.current = null;
+        setResult({ success: false, error });
+        setIsRunning(false);
+      };
+
+      sandbox.onmessage = (response: TransformResponse) => {
+        if (response.id !== latestRequestRef.current) return;
+        clearTimeout(timeout);
+        setResult(response.result);
+        setIsRunning(false);
+      };
+
+      sandbox.ready.then(
+        () => {
+          if (!isCurrent) return;
+          timeout = setTimeout(
+            () => stop(`Stopped after ${TRANSFORM_TIMEOUT_MS / 1000}s - does the transformer loop forever?`),
+            TRANSFORM_TIMEOUT_MS,
+          );
+          const request: TransformRequest = { id, sourceCode, options, transformerCode };
+          sandbox.postMessage(request);
+        },
+        (error: unknown) => {
+          if (isCurrent) stop(`Couldn't start the transform sandbox: ${error instanceof Error ? error.message : String(error)}`);
+        },
+      );
+    }, TRANSFORM_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+      clearTimeout(timeout);
+    };
+  }, [sourceCode, options, transformerCode, enabled]);
+
+  return { result, isRunning };
+}
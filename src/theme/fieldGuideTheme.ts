@@ -140,6 +140,29 @@ export const fieldGuideTheme = EditorView.theme(
       backgroundColor: "rgba(212, 145, 94, 0.5)",
     },
 
+    // Nodes picked in the visualizations (mark decorations, not selections)
+    ".cm-node-selected": {
+      backgroundColor: "rgba(200, 79, 49, 0.12)",
+      borderBottom: `2px solid ${colors.vermillion}`,
+    },
+
+    // Nodes matched by the query bar
+    ".cm-node-match": {
+      backgroundColor: "rgba(212, 145, 94, 0.25)",
+    },
+
+    // Every use of the selected identifier's binding
+    ".cm-node-reference": {
+      backgroundColor: "rgba(74, 107, 90, 0.15)",
+      borderBottom: `2px dotted ${colors.verdigris}`,
+    },
+
+    ".cm-node-hover": {
+      backgroundColor: colors.selection,
+      outline: `1px dashed ${colors.vermillion}`,
+      borderRadius: "2px",
+    },
+
     // Tooltips
     ".cm-tooltip": {
       backgroundColor: colors.paper,
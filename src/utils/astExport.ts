@@ -0,0 +1,109 @@
+import './nodeShims';
+import * as ts from 'typescript';
+import { parse } from '@typescript-eslint/typescript-estree';
+import { getNodeTypeName, languageModes } from './parser';
+import { decodeFlags, enumProperties, internalProperties, isNode } from './nodeDetails';
+
+export type AstExportFormat = 'typescript' | 'estree';
+
+export interface AstExportOptions {
+  format: AstExportFormat;
+  positions: boolean; // Keep pos/end (TypeScript) or range/loc (ESTree)
+}
+
+export type AstExportResult = { success: true; json: string } | { success: false; error: string };
+
+/**
+ * Serialize the tree as JSON, in the compiler's own shape or as ESTree.
+ *
+ * PARSING INSIGHT: One Program, Two Trees
+ * ========================================
+ * ESLint doesn't look at the TypeScript AST. typescript-eslint parses with
+ * the TypeScript compiler and then converts the result to ESTree, the shape
+ * every JavaScript tool agrees on - and the two disagree in places:
+ *
+ *   TypeScript                          ESTree
+ *   PropertyAccessExpression            MemberExpression (computed: false)
+ *   ElementAccessExpression             MemberExpression (computed: true)
+ *   BinaryExpression (EqualsToken)      AssignmentExpression
+ *   VariableStatement                   VariableDeclaration
+ *   Identifier { escapedText }          Identifier { name }
+ *
+ * Tokens disappear into fields too: the "async" keyword is a node in
+ * TypeScript's modifiers list, but just `async: true` in ESTree. Exporting
+ * both is the quickest way to see why a lint rule's selector doesn't match
+ * what the tree views show.
+ */
+export function exportAst(sourceFile: ts.SourceFile, options: AstExportOptions): AstExportResult {
+  if (options.format === 'typescript') {
+    return { success: true, json: JSON.stringify(toTypeScriptJson(sourceFile, sourceFile, options.positions), null, 2) };
+  }
+
+  if (sourceFile.fileName === languageModes.json.fileName) {
+    return { success: false, error: 'ESTree has no form for JSON documents' };
+  }
+
+  let estree: unknown;
+  try {
+    // typescript-estree parses the text again itself; the file name tells it
+    // which language (and whether JSX is allowed), as it did for us
+    estree = parse(sourceFile.text, {
+      filePath: sourceFile.fileName,
+      jsx: sourceFile.languageVariant === ts.LanguageVariant.JSX,
+      range: options.positions,
+      loc: options.positions,
+      comment: true,
+      tokens: false,
+      suppressDeprecatedPropertyWarnings: true,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `typescript-estree can't convert this code: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  // Comments carry range/loc whatever the settings say, so they're dropped here
+  const replacer = (key: string, value: unknown) =>
+    !options.positions && (key === 'range' || key === 'loc') ? undefined : value;
+  return { success: true, json: JSON.stringify(estree, replacer, 2) };
+}
+
+/**
+ * A node as plain data: its kind name, position, and every named field,
+ * with child nodes nested in place.
+ */
+function toTypeScriptJson(node: ts.Node, sourceFile: ts.SourceFile, positions: boolean): Record<string, unknown> {
+  const children = new Set<ts.Node>();
+  ts.forEachChild(node, (child) => {
+    children.add(child);
+  });
+
+  const json: Record<string, unknown> = { kind: getNodeTypeName(node.kind) };
+  if (positions) {
+    json.pos = node.pos;
+    json.start = node.getStart(sourceFile);
+    json.end = node.end;
+  }
+
+  const flags = decodeFlags(node.flags, ts.NodeFlags as unknown as Record<string, number>);
+  if (flags.length > 0) json.flags = flags;
+
+  // Identifiers and literals keep their text in "text"
+  if ('text' in node && !ts.isSourceFile(node)) json.text = (node as { text: unknown }).text;
+
+  for (const [name, value] of Object.entries(node)) {
+    if (internalProperties.has(name) || typeof value === 'function') continue;
+
+    if (isNode(value) && children.has(value)) {
+      json[name] = toTypeScriptJson(value, sourceFile, positions);
+    } else if (Array.isArray(value) && value.every((item) => children.has(item))) {
+      json[name] = value.map((item: ts.Node) => toTypeScriptJson(item, sourceFile, positions));
+    } else if (typeof value === 'number' && enumProperties[name]) {
+      json[name] = enumProperties[name](value);
+    } else if (value === null || typeof value !== 'object') {
+      json[name] = value;
+    }
+  }
+  return json;
+}
@@ -1,20 +1,35 @@
 import * as ts from 'typescript';
+import { getNodeTypeName, isMissingNode } from './parser';
+import { childPath, getChildFields } from './syntaxTree';
 
 export interface HierarchyNode {
   name: string;
   children?: HierarchyNode[];
   value?: number;
   syntaxKind?: ts.SyntaxKind;
-  astNode: ts.Node; // Reference to original AST node for hover highlighting
+  path: string; // Node path - links back to the SyntaxTreeNode for highlighting
+  field?: string; // Parent property it sits in: "left", "body" - or "[2]" inside a NodeArray
+  isNodeArray?: boolean; // Pseudo-node grouping a list-valued field's elements
+  isMissing?: boolean; // Placeholder synthesized by the parser's error recovery
+  isReused?: boolean; // Carried over unchanged by an incremental reparse
+  ring?: { x: number; y: number; r: number }; // Precomputed circle-packing position
+  branch?: { angle: number; radius: number }; // Precomputed radial tree position
 }
 
 /**
  * Converts a TypeScript AST node into a D3-compatible hierarchy structure
  * for circle packing visualization.
+ *
+ * The result is plain data (no ts.Node references) so it can be built in the
+ * parse worker and posted to the main thread.
  */
-export function astToHierarchy(node: ts.Node): HierarchyNode {
+export function astToHierarchy(
+  node: ts.Node,
+  path: string,
+  reusedNodes?: ReadonlySet<ts.Node>
+): HierarchyNode {
   const syntaxKind = node.kind;
-  const kindName = ts.SyntaxKind[syntaxKind];
+  const kindName = getNodeTypeName(syntaxKind);
 
   // Get node text for terminals (literals, identifiers, etc.)
   let nodeName = kindName;
@@ -31,16 +46,52 @@ export function astToHierarchy(node: ts.Node): HierarchyNode {
     nodeName = kindName;
   }
 
-  // Get children, filtering out noise
+  const isMissing = isMissingNode(node);
+  if (isMissing) {
+    nodeName = `${kindName} (missing)`;
+  }
+
+  // Get children, filtering out noise. Elements of list-valued fields
+  // (statements, parameters, arguments) are gathered under a NodeArray
+  // pseudo-node named after the field.
   const children: HierarchyNode[] = [];
+  const fields = getChildFields(node);
+  let nodeArray: HierarchyNode | null = null;
 
+  let childIndex = 0;
   ts.forEachChild(node, (child) => {
+    // Count every child so paths match the full tree's child indices
+    const index = childIndex++;
+
     // Skip EndOfFileToken wrapper
     if (child.kind === ts.SyntaxKind.EndOfFileToken) {
       return;
     }
 
-    children.push(astToHierarchy(child));
+    const field = fields[index];
+    const childNode = astToHierarchy(child, childPath(path, index), reusedNodes);
+
+    if (field.index === undefined) {
+      nodeArray = null;
+      childNode.field = field.name;
+      children.push(childNode);
+      return;
+    }
+
+    if (field.index === 0 || !nodeArray) {
+      nodeArray = {
+        name: 'NodeArray',
+        field: field.name,
+        isNodeArray: true,
+        value: 1,
+        path: `${path}#${field.name}`, // Not a real node, so it can't be selected
+        children: [],
+      };
+      children.push(nodeArray);
+    }
+    childNode.field = `[${field.index}]`;
+    nodeArray.children!.push(childNode);
+    nodeArray.name = `NodeArray (${nodeArray.children!.length})`;
   });
 
   // Build hierarchy node
@@ -48,9 +99,17 @@ export function astToHierarchy(node: ts.Node): HierarchyNode {
     name: nodeName,
     syntaxKind,
     value: 1, // Uniform sizing for now - can make dynamic later
-    astNode: node, // Store reference to original AST node
+    path, // Points back to the original AST node
   };
 
+  if (isMissing) {
+    hierarchyNode.isMissing = true;
+  }
+
+  if (reusedNodes?.has(node)) {
+    hierarchyNode.isReused = true;
+  }
+
   if (children.length > 0) {
     hierarchyNode.children = children;
   }
@@ -62,10 +121,14 @@ export function astToHierarchy(node: ts.Node): HierarchyNode {
  * Converts the root AST (SourceFile) to hierarchy, skipping the SourceFile wrapper
  * to start with the actual code content.
  */
-export function astRootToHierarchy(sourceFile: ts.SourceFile): HierarchyNode {
+export function astRootToHierarchy(
+  sourceFile: ts.SourceFile,
+  reusedNodes?: ReadonlySet<ts.Node>
+): HierarchyNode {
   // If there's only one statement, start from there to avoid extra nesting
+  // (statements are the SourceFile's first children, so statement i has path "i")
   if (sourceFile.statements.length === 1) {
-    return astToHierarchy(sourceFile.statements[0]);
+    return astToHierarchy(sourceFile.statements[0], '0', reusedNodes);
   }
 
   // Otherwise, create a root node with all statements as children
@@ -73,7 +136,19 @@ export function astRootToHierarchy(sourceFile: ts.SourceFile): HierarchyNode {
     name: 'Program',
     syntaxKind: ts.SyntaxKind.SourceFile,
     value: 1,
-    astNode: sourceFile, // Store reference to original AST node
-    children: sourceFile.statements.map(stmt => astToHierarchy(stmt)),
+    path: '', // The SourceFile itself
+    children: sourceFile.statements.map((stmt, index) => ({
+      ...astToHierarchy(stmt, String(index), reusedNodes),
+      field: `[${index}]`,
+    })),
   };
 }
+
+/**
+ * A node's name prefixed with the field it sits in, for labels:
+ * "left: Identifier: x", "[0] ExpressionStatement".
+ */
+export function getFieldLabel(node: HierarchyNode): string {
+  if (!node.field) return node.name;
+  return node.field.startsWith('[') ? `${node.field} ${node.name}` : `${node.field}: ${node.name}`;
+}
@@ -0,0 +1,112 @@
+import * as ts from 'typescript';
+
+/**
+ * A comment attached to a node, as plain data for the tree views.
+ */
+export interface CommentInfo {
+  placement: 'leading' | 'trailing'; // Before the node, or after it on the same line
+  kind: 'line' | 'block' | 'jsdoc';
+  from: number;
+  to: number;
+  text: string; // Raw comment text, or the description for JSDoc
+  tags?: string[]; // JSDoc tag names, e.g. ["param", "returns"]
+}
+
+/**
+ * Find every comment in the file and the node it belongs to.
+ *
+ * PARSING INSIGHT: Trivia
+ * ========================
+ * Comments aren't in the tree. The scanner skips them along with
+ * whitespace as "trivia", so ts.forEachChild never visits them. They're
+ * still in the text, between nodes - and since a node's pos is its full
+ * start (trivia included), the comments before a node are the ones between
+ * its pos and its first real character:
+ *
+ *   /** Adds two numbers *\/        ← leading comment of the function
+ *   function add(a, b) {
+ *     return a + b; // the sum      ← trailing comment of the return
+ *   }
+ *
+ * ts.getLeadingCommentRanges(text, node.pos) and
+ * ts.getTrailingCommentRanges(text, node.end) read them back. Nested nodes
+ * often share a pos (a statement and its first expression), so each comment
+ * goes to the outermost node that can claim it - that's how formatters
+ * decide what a comment belongs to when they move code around.
+ *
+ * JSDoc comments are the exception that does get parsed: TypeScript attaches
+ * a JSDoc node (with its @tags) to the declaration below it.
+ */
+export function collectComments(sourceFile: ts.SourceFile): Map<ts.Node, CommentInfo[]> {
+  const text = sourceFile.text;
+  const jsDocs = collectJSDocs(sourceFile);
+  const claimed = new Set<number>(); // Comment start positions already attached
+  const comments = new Map<ts.Node, CommentInfo[]>();
+
+  const describe = (
+    range: ts.CommentRange,
+    placement: CommentInfo['placement']
+  ): CommentInfo => {
+    const jsDoc = jsDocs.get(range.pos);
+    if (jsDoc) {
+      return {
+        placement,
+        kind: 'jsdoc',
+        from: range.pos,
+        to: range.end,
+        text: ts.getTextOfJSDocComment(jsDoc.comment) ?? '',
+        tags: jsDoc.tags?.map((tag) => tag.tagName.text) ?? [],
+      };
+    }
+
+    return {
+      placement,
+      kind: range.kind === ts.SyntaxKind.SingleLineCommentTrivia ? 'line' : 'block',
+      from: range.pos,
+      to: range.end,
+      text: text.slice(range.pos, range.end),
+    };
+  };
+
+  const visit = (node: ts.Node) => {
+    const attached: CommentInfo[] = [];
+    const claim = (
+      ranges: ts.CommentRange[] | undefined,
+      placement: CommentInfo['placement']
+    ) => {
+      for (const range of ranges ?? []) {
+        if (claimed.has(range.pos)) continue;
+        claimed.add(range.pos);
+        attached.push(describe(range, placement));
+      }
+    };
+
+    claim(ts.getLeadingCommentRanges(text, node.pos), 'leading');
+    claim(ts.getTrailingCommentRanges(text, node.end), 'trailing');
+    if (attached.length > 0) comments.set(node, attached);
+
+    ts.forEachChild(node, visit);
+  };
+
+  // The SourceFile's own leading comments are the first statement's
+  ts.forEachChild(sourceFile, visit);
+  return comments;
+}
+
+/**
+ * Parsed JSDoc blocks by start position. The jsDoc property is internal to
+ * the compiler (ts.getJSDocCommentsAndTags also pulls in a parent's docs), so
+ * it's read through a cast.
+ */
+function collectJSDocs(sourceFile: ts.SourceFile): Map<number, ts.JSDoc> {
+  const jsDocs = new Map<number, ts.JSDoc>();
+
+  const visit = (node: ts.Node) => {
+    const { jsDoc } = node as ts.Node & { jsDoc?: ts.JSDoc[] };
+    jsDoc?.forEach((doc) => jsDocs.set(doc.pos, doc));
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return jsDocs;
+}
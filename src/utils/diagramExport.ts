@@ -0,0 +1,176 @@
+import * as ts from 'typescript';
+import { HierarchyNode } from './astToHierarchy';
+import { colors } from '../theme/botanical';
+
+export type DiagramFormat = 'dot' | 'mermaid';
+
+export interface DiagramOptions {
+  format: DiagramFormat;
+  maxDepth: number; // Levels below the root to draw; deeper subtrees become a "+N more" stub
+  collapseTokens: boolean; // Fold keyword and punctuation leaves into their parent's label
+  includeText: boolean; // Keep identifier and literal text ("Identifier: x") or just the kind
+}
+
+export interface Diagram {
+  text: string;
+  nodeCount: number; // Boxes drawn (stubs not included)
+  hiddenCount: number; // Nodes below the depth limit
+}
+
+// One box in the diagram, before it's written out in either syntax
+interface DiagramNode {
+  id: string;
+  lines: string[];
+  style: 'node' | 'nodeArray' | 'missing' | 'stub';
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+function isTokenLeaf(node: HierarchyNode): boolean {
+  const kind = node.syntaxKind;
+  if (node.children || kind === undefined) return false;
+  return (
+    (kind >= ts.SyntaxKind.FirstPunctuation && kind <= ts.SyntaxKind.LastPunctuation) ||
+    (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword)
+  );
+}
+
+function countDescendants(node: HierarchyNode): number {
+  return (node.children ?? []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+/**
+ * Draw the hierarchy as a Graphviz DOT or Mermaid flowchart, for pasting
+ * into docs.
+ *
+ * PARSING INSIGHT: Where the Ink Goes
+ * ====================================
+ * Most of a syntax tree is scaffolding. In `a + 1` the BinaryExpression
+ * has three children, and one of them is the PlusToken - a leaf that only
+ * says which operator it is. Keywords are the same: `async` is a whole
+ * node in the modifiers list. Collapsing those leaves into a second line
+ * of their parent's label roughly halves the boxes without losing
+ * anything, and the depth limit keeps a diagram of a whole file legible -
+ * in a README the shape of the top few levels usually tells the story.
+ */
+export function hierarchyToDiagram(root: HierarchyNode, options: DiagramOptions): Diagram {
+  const nodes: DiagramNode[] = [];
+  const edges: DiagramEdge[] = [];
+  let hiddenCount = 0;
+
+  const label = (node: HierarchyNode) =>
+    // Names are "Kind" or "Kind: text" (see astToHierarchy)
+    options.includeText ? node.name : node.name.split(': ')[0];
+
+  // Boxes and edges are written in document order, which both layout
+  // engines use to order siblings left to right
+  const visit = (node: HierarchyNode, depth: number, parentId: string | null) => {
+    const id = `n${nodes.length}`;
+    const box: DiagramNode = {
+      id,
+      lines: [label(node)],
+      style: node.isNodeArray ? 'nodeArray' : node.isMissing ? 'missing' : 'node',
+    };
+    nodes.push(box);
+    if (parentId !== null) {
+      // List positions ("[2]") are already clear from the left-to-right order
+      const field = node.field && !node.field.startsWith('[') ? node.field : undefined;
+      edges.push({ from: parentId, to: id, label: field });
+    }
+
+    const children = node.children ?? [];
+    if (depth >= options.maxDepth) {
+      const hidden = countDescendants(node);
+      if (hidden > 0) {
+        hiddenCount += hidden;
+        const stubId = `${id}_more`;
+        nodes.push({ id: stubId, lines: [`+${hidden} more`], style: 'stub' });
+        edges.push({ from: id, to: stubId });
+      }
+      return;
+    }
+
+    const tokens: string[] = [];
+    for (const child of children) {
+      if (options.collapseTokens && isTokenLeaf(child)) {
+        tokens.push(ts.tokenToString(child.syntaxKind!) ?? child.name);
+        continue;
+      }
+      visit(child, depth + 1, id);
+    }
+    if (tokens.length > 0) box.lines.push(tokens.join(' '));
+  };
+
+  visit(root, 0, null);
+  const text = options.format === 'dot' ? toDot(nodes, edges) : toMermaid(nodes, edges);
+  return { text, nodeCount: nodes.filter((node) => node.style !== 'stub').length, hiddenCount };
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r\n|\r|\n/g, '\\n')}"`;
+}
+
+const dotStyles: Record<DiagramNode['style'], string> = {
+  node: '',
+  nodeArray: ', style="rounded,dashed,filled"',
+  missing: `, color="${colors.botanical.vermillion}", fontcolor="${colors.botanical.vermillion}"`,
+  stub: `, shape=plaintext, style="", fontcolor="${colors.ink.wash}"`,
+};
+
+function toDot(nodes: DiagramNode[], edges: DiagramEdge[]): string {
+  const lines = [
+    'digraph AST {',
+    `  graph [bgcolor="${colors.paper.pristine}"];`,
+    `  node [shape=box, style="rounded,filled", fillcolor="${colors.paper.aged}", color="${colors.ink.light}", ` +
+      `fontcolor="${colors.ink.fresh}", fontname="Courier"];`,
+    `  edge [color="${colors.ink.wash}", fontcolor="${colors.ink.faded}", fontname="Courier", fontsize=10];`,
+  ];
+  for (const node of nodes) {
+    // "\n" inside a DOT string is a centered line break
+    const label = node.lines.map((line) => dotString(line).slice(1, -1)).join('\\n');
+    lines.push(`  ${node.id} [label="${label}"${dotStyles[node.style]}];`);
+  }
+  for (const edge of edges) {
+    lines.push(`  ${edge.from} -> ${edge.to}${edge.label ? ` [label=${dotString(edge.label)}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Mermaid labels are quoted; quotes and the entity marker itself have to
+// be written as entity codes, and a raw line break would end the statement
+function mermaidString(text: string): string {
+  return text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\r\n|\r|\n/g, '<br/>');
+}
+
+function toMermaid(nodes: DiagramNode[], edges: DiagramEdge[]): string {
+  const lines = ['graph TD'];
+  for (const node of nodes) {
+    lines.push(`  ${node.id}["${node.lines.map(mermaidString).join('<br/>')}"]`);
+  }
+  for (const edge of edges) {
+    lines.push(`  ${edge.from} -->${edge.label ? `|"${mermaidString(edge.label)}"|` : ''} ${edge.to}`);
+  }
+
+  lines.push(
+    `  classDef default fill:${colors.paper.aged},stroke:${colors.ink.light},color:${colors.ink.fresh}`,
+    `  classDef nodeArray stroke-dasharray:4 3`,
+    `  classDef missing stroke:${colors.botanical.vermillion},color:${colors.botanical.vermillion}`,
+    `  classDef stub fill:none,stroke:none,color:${colors.ink.wash}`
+  );
+  for (const style of ['nodeArray', 'missing', 'stub'] as const) {
+    const ids = nodes.filter((node) => node.style === style).map((node) => node.id);
+    if (ids.length > 0) lines.push(`  class ${ids.join(',')} ${style}`);
+  }
+  if (edges.length > 0) lines.push(`  linkStyle default stroke:${colors.ink.wash}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,13 @@
+/**
+ * Hand the browser a file to save, without a server round trip.
+ */
+export function downloadFile(fileName: string, content: string | Blob, type = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The click starts the download synchronously; the URL can go once it has
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,95 @@
+import { EditorView, Decoration, DecorationSet } from '@codemirror/view';
+import { StateEffect, StateField } from '@codemirror/state';
+import { SyntaxTreeNode } from './syntaxTree';
+
+/**
+ * Editor highlight layers
+ *
+ * Highlights from the visualizations are drawn as CodeMirror mark
+ * decorations rather than by moving the editor's selection, so hovering the
+ * tree never disturbs where the user's cursor is. Each layer is replaced
+ * independently (hover comes and goes, selection stays) and its ranges are
+ * mapped through edits so they don't drift while typing.
+ */
+
+export type HighlightLayer = 'hover' | 'selected' | 'references' | 'matches';
+
+export interface HighlightRange {
+  from: number;
+  to: number;
+}
+
+const layerMarks: Record<HighlightLayer, Decoration> = {
+  references: Decoration.mark({ class: 'cm-node-reference' }),
+  matches: Decoration.mark({ class: 'cm-node-match' }),
+  selected: Decoration.mark({ class: 'cm-node-selected' }),
+  hover: Decoration.mark({ class: 'cm-node-hover' }),
+};
+
+// Later layers paint over earlier ones
+const layerOrder: HighlightLayer[] = ['matches', 'references', 'selected', 'hover'];
+
+export const setHighlight = StateEffect.define<{
+  layer: HighlightLayer;
+  ranges: HighlightRange[];
+}>();
+
+type HighlightState = Partial<Record<HighlightLayer, HighlightRange[]>>;
+
+const highlightState = StateField.define<HighlightState>({
+  create: () => ({}),
+  update(state, tr) {
+    let next = state;
+
+    if (tr.docChanged) {
+      next = {};
+      for (const layer of layerOrder) {
+        next[layer] = state[layer]?.map(({ from, to }) => ({
+          from: tr.changes.mapPos(from, 1),
+          to: tr.changes.mapPos(to, -1),
+        }));
+      }
+    }
+
+    for (const effect of tr.effects) {
+      if (effect.is(setHighlight)) {
+        next = { ...next, [effect.value.layer]: effect.value.ranges };
+      }
+    }
+
+    return next;
+  },
+  provide: (field) =>
+    EditorView.decorations.from(field, (state): DecorationSet => {
+      const marks = layerOrder.flatMap((layer) =>
+        (state[layer] ?? [])
+          .filter(({ from, to }) => to > from)
+          .map(({ from, to }) => layerMarks[layer].range(from, to))
+      );
+      return Decoration.set(marks, true);
+    }),
+});
+
+export const editorHighlights = [highlightState];
+
+/**
+ * The source range a node covers, without its leading trivia
+ * (whitespace and comments belong to the gap before a node, not the node).
+ */
+export function nodeRange(node: SyntaxTreeNode): HighlightRange {
+  return { from: node.start, to: node.end };
+}
+
+/**
+ * Replace one highlight layer, dropping ranges that fall outside the
+ * document (a stale node from before the last edit can point past the end).
+ */
+export function highlightRanges(view: EditorView, layer: HighlightLayer, ranges: HighlightRange[]) {
+  const docLength = view.state.doc.length;
+  view.dispatch({
+    effects: setHighlight.of({
+      layer,
+      ranges: ranges.filter(({ from, to }) => from >= 0 && to <= docLength && from <= to),
+    }),
+  });
+}
@@ -0,0 +1,65 @@
+import * as d3 from 'd3';
+import { HierarchyNode } from './astToHierarchy';
+
+/**
+ * Layout pre-computation for the D3 views.
+ *
+ * Packing circles and spacing a tidy tree are the expensive parts of drawing
+ * a large AST, so they run in the parse worker right after the hierarchy is
+ * built. Positions are written onto each HierarchyNode (ring / branch) and
+ * the views only have to draw them.
+ */
+
+// Rings view coordinate space (viewBox units - the SVG scales to fit)
+export const ringsLayout = {
+  width: 800,
+  height: 600,
+  margin: 50, // Keeps the outer ring's label off the edge
+  padding: 6, // Small fixed padding keeps deep trees from collapsing into a blob
+};
+
+// Radial view: the circle grows with the number of leaves so labels keep some room
+export const radialLayout = {
+  minRadius: 240,
+  leafSpacing: 12,
+  margin: 160, // Room for the outermost labels
+};
+
+export function getRadialRadius(leafCount: number): number {
+  return Math.max(radialLayout.minRadius, leafCount * radialLayout.leafSpacing);
+}
+
+/**
+ * Circle packing: every node becomes a ring enclosing its children.
+ */
+export function computeRingsLayout(hierarchy: HierarchyNode): void {
+  const { width, height, margin, padding } = ringsLayout;
+
+  // Sum values (required before pack)
+  const root = d3.hierarchy(hierarchy).sum(d => d.value || 1);
+
+  const pack = d3.pack<HierarchyNode>()
+    .size([width - margin * 2, height - margin * 2])
+    .padding(padding);
+
+  pack(root).each(d => {
+    d.data.ring = { x: d.x, y: d.y, r: d.r };
+  });
+}
+
+/**
+ * Reingold-Tilford tidy tree wrapped around a circle: x becomes an angle
+ * (radians), y a distance from the centre.
+ */
+export function computeRadialLayout(hierarchy: HierarchyNode): void {
+  const root = d3.hierarchy(hierarchy);
+  const radius = getRadialRadius(root.leaves().length);
+
+  const tree = d3.tree<HierarchyNode>()
+    .size([2 * Math.PI, radius])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1));
+
+  tree(root).each(d => {
+    d.data.branch = { angle: d.x, radius: d.y };
+  });
+}
@@ -0,0 +1,169 @@
+import * as ts from 'typescript';
+import { SyntaxTreeNode } from './syntaxTree';
+import { TokenInfo } from './tokens';
+import { Species, speciesByName, speciesOf } from './leximons';
+
+/**
+ * What the Lexidex remembers about a species once it's been found.
+ */
+export interface Sighting {
+  firstSeen: number; // Epoch milliseconds
+  firstSeenIn: string; // The line of code it was first found on
+  largestColony: number; // Most occurrences in a single parse
+}
+
+// Keyed by kind name rather than number: SyntaxKind values shift between
+// TypeScript versions, names don't
+export type Lexidex = Record<string, Sighting>;
+
+/**
+ * One place a kind appears in the current code. Tree nodes carry a path
+ * (so they can be selected); kinds only the scanner sees don't.
+ */
+export interface Occurrence {
+  path?: string;
+  start: number;
+  end: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+const STORAGE_KEY = 'arbor-parser:lexidex';
+
+// Longest first-sighting line kept; enough to recognize the code by
+const SNIPPET_LENGTH = 80;
+
+/**
+ * Every occurrence of every species in one parse, by kind name, in
+ * document order.
+ *
+ * PARSING INSIGHT: Two Censuses
+ * ==============================
+ * Neither the tree nor the token stream sees everything. The tree has no
+ * node for the `finally` keyword, the braces of a block or the `@` of a
+ * decorator - the parser consumed them and only kept what they built. The
+ * scanner has those, but it doesn't know that `type` in `const type = 1`
+ * is an Identifier, or that `>` `>` is one `>>`. So both are counted, and
+ * where a token and a leaf node cover the same characters the parser's
+ * reading wins.
+ */
+export function collectOccurrences(tree: SyntaxTreeNode, tokens: TokenInfo[]): Map<string, Occurrence[]> {
+  const occurrences = new Map<string, Occurrence[]>();
+  const add = (kind: ts.SyntaxKind, occurrence: Occurrence) => {
+    const species = speciesOf(kind);
+    if (!species) return;
+    const list = occurrences.get(species.name);
+    if (list) list.push(occurrence);
+    else occurrences.set(species.name, [occurrence]);
+  };
+
+  const positions = new Map<number, TokenInfo>();
+  for (const token of tokens) {
+    if (!token.isTrivia) positions.set(token.start, token);
+  }
+
+  const leafSpans = new Set<string>();
+  const visit = (node: SyntaxTreeNode) => {
+    // Placeholders from error recovery aren't in the code
+    if (node.isMissing) return;
+    if (node.children.length === 0) leafSpans.add(`${node.start}:${node.end}`);
+    const token = positions.get(node.start);
+    add(node.kind, {
+      path: node.path,
+      start: node.start,
+      end: node.end,
+      line: token?.line ?? 1,
+      column: token?.column ?? 1,
+    });
+    node.children.forEach(visit);
+  };
+  visit(tree);
+
+  for (const token of tokens) {
+    if (token.isTrivia || leafSpans.has(`${token.start}:${token.end}`)) continue;
+    add(token.kind, { start: token.start, end: token.end, line: token.line, column: token.column });
+  }
+
+  for (const list of occurrences.values()) list.sort((a, b) => a.start - b.start);
+  return occurrences;
+}
+
+/**
+ * Add one parse's finds (in `source`, the code that was parsed) to the
+ * Lexidex. Returns the updated Lexidex (the
+ * same object when nothing changed) and the species seen for the first
+ * time, in the order they appear in the code.
+ */
+export function recordSightings(
+  lexidex: Lexidex,
+  occurrences: Map<string, Occurrence[]>,
+  source: string
+): { lexidex: Lexidex; discovered: Species[] } {
+  const discovered: Species[] = [];
+  let updated: Lexidex | null = null;
+
+  for (const [name, list] of occurrences) {
+    const sighting = lexidex[name];
+    if (sighting && sighting.largestColony >= list.length) continue;
+
+    updated ??= { ...lexidex };
+    if (sighting) {
+      updated[name] = { ...sighting, largestColony: list.length };
+    } else {
+      updated[name] = { firstSeen: Date.now(), firstSeenIn: lineAt(source, list[0].start), largestColony: list.length };
+      discovered.push(speciesByName.get(name)!);
+    }
+  }
+
+  discovered.sort((a, b) => occurrences.get(a.name)![0].start - occurrences.get(b.name)![0].start);
+  return { lexidex: updated ?? lexidex, discovered };
+}
+
+function lineAt(source: string, offset: number): string {
+  const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+  const lineEnd = source.indexOf('\n', offset);
+  const line = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim();
+  return line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH - 1)}…` : line;
+}
+
+function toSighting(value: unknown): Sighting | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const candidate = value as Partial<Sighting>;
+  if (typeof candidate.firstSeen !== 'number') return null;
+  return {
+    firstSeen: candidate.firstSeen,
+    firstSeenIn: typeof candidate.firstSeenIn === 'string' ? candidate.firstSeenIn : '',
+    largestColony: typeof candidate.largestColony === 'number' ? candidate.largestColony : 1,
+  };
+}
+
+/**
+ * The saved Lexidex. Empty if nothing's been found yet or storage is
+ * unavailable; kinds this TypeScript version doesn't have are dropped.
+ */
+export function loadLexidex(): Lexidex {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const lexidex: Lexidex = {};
+    if (typeof data !== 'object' || data === null) return lexidex;
+    for (const [name, value] of Object.entries(data)) {
+      const sighting = toSighting(value);
+      if (sighting && speciesByName.has(name)) lexidex[name] = sighting;
+    }
+    return lexidex;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write the Lexidex back. Returns false when storage refused it.
+ */
+export function saveLexidex(lexidex: Lexidex): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lexidex));
+    return true;
+  } catch {
+    return false;
+  }
+}
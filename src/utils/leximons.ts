@@ -0,0 +1,258 @@
+import * as ts from 'typescript';
+import { getNodeTypeName } from './parser';
+
+/**
+ * The Lexidex's taxonomy, from the LexiScope spec (docs/NOV15-LEXISCOPE-SPEC.md).
+ *
+ * Every SyntaxKind is a species. Tokens the spec doesn't single out -
+ * operators, punctuation, keywords - are Gliphs, the alphabet of code:
+ * collected quietly, grouped by what they do. Everything else is a
+ * Leximon, with a rarity tier (how fluent you have to be to write it), a
+ * realm (does it run, or only exist for the type checker?) and a family.
+ */
+export type Rarity = 'Common' | 'Uncommon' | 'Rare' | 'Legendary';
+export type Realm = 'Runtime' | 'Type';
+export type Family =
+  | 'Expression'
+  | 'Statement'
+  | 'Declaration'
+  | 'Literal'
+  | 'BasicType'
+  | 'CompositeType'
+  | 'AdvancedConstruct';
+export type GliphCategory =
+  | 'Arithmetic'
+  | 'Comparison'
+  | 'Logical'
+  | 'Bitwise'
+  | 'Assignment'
+  | 'Brackets'
+  | 'Punctuation'
+  | 'Keywords';
+
+export interface Leximon {
+  type: 'leximon';
+  kind: ts.SyntaxKind;
+  name: string;
+  rarity: Rarity;
+  realm: Realm;
+  family: Family;
+}
+
+export interface Gliph {
+  type: 'gliph';
+  kind: ts.SyntaxKind;
+  name: string;
+  symbol: string; // "+", "=>", "async"
+  category: GliphCategory;
+}
+
+export type Species = Leximon | Gliph;
+
+export const rarities: Rarity[] = ['Common', 'Uncommon', 'Rare', 'Legendary'];
+
+export const gliphCategories: GliphCategory[] = [
+  'Arithmetic', 'Comparison', 'Logical', 'Bitwise', 'Assignment', 'Brackets', 'Punctuation', 'Keywords',
+];
+
+// The spec's tier lists. Its ArrowFunctionExpression and TemplateLiteral are
+// ArrowFunction and NoSubstitutionTemplateLiteral in the compiler, and
+// PromiseType isn't a kind at all (Promise<T> is a TypeReference). JSDocSignature
+// is left out with the rest of the doc-comment grammar (see below).
+const tiers: Record<Rarity, string[]> = {
+  Common: [
+    'Identifier', 'NumericLiteral', 'StringLiteral', 'TrueKeyword', 'FalseKeyword', 'NullKeyword',
+    'BinaryExpression', 'CallExpression', 'PropertyAccessExpression', 'ElementAccessExpression',
+    'ParenthesizedExpression', 'VariableStatement', 'VariableDeclaration', 'IfStatement',
+    'ReturnStatement', 'ExpressionStatement', 'Block', 'PlusToken', 'MinusToken', 'AsteriskToken',
+    'SlashToken', 'EqualsToken', 'EqualsEqualsToken', 'ExclamationEqualsToken', 'LessThanToken',
+    'GreaterThanToken',
+  ],
+  Uncommon: [
+    'ArrowFunction', 'NoSubstitutionTemplateLiteral', 'TemplateExpression', 'SpreadElement',
+    'ObjectLiteralExpression', 'ArrayLiteralExpression', 'PropertyAssignment',
+    'ShorthandPropertyAssignment', 'ForStatement', 'ForOfStatement', 'ForInStatement',
+    'WhileStatement', 'SwitchStatement', 'CaseClause', 'DefaultClause', 'BreakStatement',
+    'ContinueStatement', 'TryStatement', 'CatchClause', 'FinallyKeyword', 'FunctionDeclaration',
+    'FunctionExpression', 'Parameter', 'CallSignature', 'ConditionalExpression',
+    'PrefixUnaryExpression', 'PostfixUnaryExpression', 'EqualsEqualsEqualsToken',
+    'AmpersandAmpersandToken', 'BarBarToken', 'ObjectBindingPattern', 'ArrayBindingPattern',
+    'BindingElement',
+  ],
+  Rare: [
+    'AwaitExpression', 'AsyncKeyword', 'YieldExpression', 'TypeReference', 'TypeParameter',
+    'UnionType', 'IntersectionType', 'TypeLiteral', 'IndexSignature', 'TypePredicate',
+    'AsExpression', 'NonNullExpression', 'SatisfiesExpression', 'ClassDeclaration', 'Constructor',
+    'MethodDeclaration', 'PropertyDeclaration', 'GetAccessor', 'SetAccessor', 'HeritageClause',
+    'AbstractKeyword', 'ImportDeclaration', 'ImportClause', 'NamedImports', 'ImportSpecifier',
+    'ExportDeclaration', 'ExportAssignment', 'NamespaceImport', 'TaggedTemplateExpression',
+    'NewExpression', 'ThisKeyword', 'SuperKeyword', 'DeleteExpression', 'TypeOfExpression',
+    'VoidExpression',
+  ],
+  Legendary: [
+    'Decorator', 'AtToken', 'PrivateIdentifier', 'PrivateKeyword', 'MappedType', 'ConditionalType',
+    'InferType', 'TemplateLiteralType', 'IndexedAccessType', 'ImportEqualsDeclaration',
+    'ExternalModuleReference', 'NamespaceExportDeclaration', 'MetaProperty', 'ImportType',
+    'JSDocNullableType', 'JSDocOptionalType', 'WithStatement', 'DebuggerStatement',
+    'LabeledStatement', 'EmptyStatement', 'CommaToken', 'MissingDeclaration', 'EnumDeclaration',
+    'EnumMember', 'ModuleDeclaration', 'ModuleBlock',
+  ],
+};
+
+const tierOf = new Map<string, Rarity>();
+for (const rarity of rarities) {
+  for (const name of tiers[rarity]) tierOf.set(name, rarity);
+}
+
+// Kinds no parse here can produce: trivia, markers, what only transformers
+// and the emitter create, and the JSDoc comment grammar (the tree doesn't
+// descend into doc comments). Listing them would leave entries nobody
+// could ever find.
+const unreachableKinds = new Set([
+  'Unknown', 'EndOfFileToken', 'SyntaxList', 'NotEmittedStatement', 'NotEmittedTypeElement',
+  'PartiallyEmittedExpression', 'CommaListExpression', 'SyntheticExpression',
+  'SyntheticReferenceExpression', 'Bundle', 'Count', 'SingleLineCommentTrivia',
+  'MultiLineCommentTrivia', 'NewLineTrivia', 'WhitespaceTrivia', 'ShebangTrivia',
+  'ConflictMarkerTrivia', 'NonTextFileMarkerTrivia', 'JsxTextAllWhiteSpaces',
+  'ImportTypeAssertionContainer',
+]);
+
+// The JSDoc types the parser also accepts in TypeScript code (`?string`,
+// `function(number): void`), reporting an error
+const jsDocTypesInCode = new Set([
+  'JSDocAllType', 'JSDocUnknownType', 'JSDocNullableType', 'JSDocNonNullableType',
+  'JSDocOptionalType', 'JSDocFunctionType', 'JSDocVariadicType',
+]);
+
+function isReachable(name: string): boolean {
+  if (unreachableKinds.has(name)) return false;
+  return !name.startsWith('JSDoc') || jsDocTypesInCode.has(name);
+}
+
+// Type-only declarations and members, outside the TypeNode range
+const typeRealmKinds = new Set([
+  'InterfaceDeclaration', 'TypeAliasDeclaration', 'TypeParameter', 'PropertySignature',
+  'MethodSignature', 'CallSignature', 'ConstructSignature', 'IndexSignature',
+  'NamespaceExportDeclaration',
+]);
+
+const compositeTypes = new Set([
+  'UnionType', 'IntersectionType', 'TupleType', 'NamedTupleMember', 'OptionalType', 'RestType',
+  'ParenthesizedType', 'FunctionType', 'ConstructorType', 'ArrayType',
+]);
+
+const advancedTypes = new Set([
+  'MappedType', 'ConditionalType', 'InferType', 'TemplateLiteralType', 'TemplateLiteralTypeSpan',
+  'IndexedAccessType', 'TypeOperator', 'TypePredicate', 'ImportType', 'TypeQuery',
+]);
+
+const literalKinds = new Set([
+  'NumericLiteral', 'BigIntLiteral', 'StringLiteral', 'RegularExpressionLiteral',
+  'NoSubstitutionTemplateLiteral', 'TemplateHead', 'TemplateMiddle', 'TemplateTail', 'JsxText',
+  'TrueKeyword', 'FalseKeyword', 'NullKeyword',
+]);
+
+const statementKinds = new Set(['SourceFile', 'Block', 'CaseBlock', 'CaseClause', 'DefaultClause', 'CatchClause', 'ModuleBlock']);
+
+const declarationKinds = new Set([
+  'Parameter', 'Constructor', 'GetAccessor', 'SetAccessor', 'ClassStaticBlockDeclaration',
+  'EnumMember', 'PropertyAssignment', 'ShorthandPropertyAssignment', 'SpreadAssignment',
+  'BindingElement', 'ObjectBindingPattern', 'ArrayBindingPattern', 'VariableDeclarationList',
+  'ImportClause', 'NamedImports', 'NamespaceImport', 'ImportSpecifier', 'NamedExports',
+  'NamespaceExport', 'ExportSpecifier', 'ExportAssignment', 'HeritageClause', 'Decorator',
+  'ImportAttributes', 'ImportAttribute', 'ExternalModuleReference',
+]);
+
+const gliphGroups: [GliphCategory, string[]][] = [
+  ['Arithmetic', ['PlusToken', 'MinusToken', 'AsteriskToken', 'AsteriskAsteriskToken', 'SlashToken', 'PercentToken', 'PlusPlusToken', 'MinusMinusToken']],
+  ['Comparison', ['LessThanToken', 'GreaterThanToken', 'LessThanEqualsToken', 'GreaterThanEqualsToken', 'EqualsEqualsToken', 'ExclamationEqualsToken', 'EqualsEqualsEqualsToken', 'ExclamationEqualsEqualsToken']],
+  ['Logical', ['AmpersandAmpersandToken', 'BarBarToken', 'ExclamationToken', 'QuestionQuestionToken']],
+  ['Bitwise', ['AmpersandToken', 'BarToken', 'CaretToken', 'TildeToken', 'LessThanLessThanToken', 'GreaterThanGreaterThanToken', 'GreaterThanGreaterThanGreaterThanToken']],
+  ['Brackets', ['OpenBraceToken', 'CloseBraceToken', 'OpenParenToken', 'CloseParenToken', 'OpenBracketToken', 'CloseBracketToken']],
+];
+
+const gliphCategoryOf = new Map<string, GliphCategory>();
+for (const [category, names] of gliphGroups) {
+  for (const name of names) gliphCategoryOf.set(name, category);
+}
+
+function isGliphKind(kind: ts.SyntaxKind): boolean {
+  return (
+    (kind >= ts.SyntaxKind.FirstPunctuation && kind <= ts.SyntaxKind.LastPunctuation) ||
+    (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword)
+  );
+}
+
+function gliphCategory(kind: ts.SyntaxKind, name: string): GliphCategory {
+  const listed = gliphCategoryOf.get(name);
+  if (listed) return listed;
+  if (kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment) return 'Assignment';
+  if (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) return 'Keywords';
+  return 'Punctuation';
+}
+
+function realmOf(kind: ts.SyntaxKind, name: string): Realm {
+  if (kind >= ts.SyntaxKind.FirstTypeNode && kind <= ts.SyntaxKind.LastTypeNode) return 'Type';
+  if (name.startsWith('JSDoc')) return 'Type';
+  return typeRealmKinds.has(name) ? 'Type' : 'Runtime';
+}
+
+function familyOf(name: string, realm: Realm): Family {
+  if (realm === 'Type') {
+    if (compositeTypes.has(name)) return 'CompositeType';
+    return advancedTypes.has(name) ? 'AdvancedConstruct' : 'BasicType';
+  }
+  if (literalKinds.has(name)) return 'Literal';
+  if (statementKinds.has(name) || name.endsWith('Statement')) return 'Statement';
+  if (declarationKinds.has(name) || name.endsWith('Declaration')) return 'Declaration';
+  return 'Expression';
+}
+
+// Kinds the spec doesn't place get a tier from where they live: type-level
+// and JSDoc syntax is advanced, everything else everyday
+function defaultRarity(name: string, realm: Realm): Rarity {
+  if (name.startsWith('JSDoc')) return 'Legendary';
+  return realm === 'Type' ? 'Rare' : 'Uncommon';
+}
+
+/**
+ * Classify one kind. Tokens named in the spec's tiers ("PlusToken" is
+ * Common) are Leximons; the rest of the tokens are Gliphs.
+ */
+export function classifyKind(kind: ts.SyntaxKind): Species {
+  const name = getNodeTypeName(kind);
+  const rarity = tierOf.get(name);
+  if (!rarity && isGliphKind(kind)) {
+    return { type: 'gliph', kind, name, symbol: ts.tokenToString(kind) ?? name, category: gliphCategory(kind, name) };
+  }
+  const realm = realmOf(kind, name);
+  return { type: 'leximon', kind, name, rarity: rarity ?? defaultRarity(name, realm), realm, family: familyOf(name, realm) };
+}
+
+/**
+ * Every species there is to find, in SyntaxKind order.
+ */
+export const allSpecies: Species[] = (() => {
+  const species: Species[] = [];
+  const seen = new Set<string>();
+  for (let kind = 0; kind < ts.SyntaxKind.Count; kind++) {
+    const name = getNodeTypeName(kind);
+    if (!isReachable(name) || seen.has(name)) continue;
+    seen.add(name);
+    species.push(classifyKind(kind));
+  }
+  return species;
+})();
+
+export const speciesByName = new Map(allSpecies.map((species) => [species.name, species]));
+
+const speciesByKind: Species[] = [];
+for (const species of allSpecies) speciesByKind[species.kind] = species;
+
+/**
+ * The species a node or token is, or undefined for kinds the Lexidex
+ * doesn't collect.
+ */
+export function speciesOf(kind: ts.SyntaxKind): Species | undefined {
+  return speciesByKind[kind];
+}
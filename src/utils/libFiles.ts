@@ -0,0 +1,18 @@
+/**
+ * The standard library declarations (lib.es5.d.ts, lib.dom.d.ts...) that ship
+ * with the typescript package, bundled as separate chunks so the type checker
+ * works offline. Each file is only downloaded when a program first needs it.
+ */
+const libFiles = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+
+/**
+ * Read a lib file by name ("lib.es2020.full.d.ts"), or undefined if
+ * TypeScript doesn't ship one by that name.
+ */
+export function readLibFile(fileName: string): Promise<string | undefined> {
+  const load = libFiles[`/node_modules/typescript/lib/${fileName}`];
+  return load ? load() : Promise.resolve(undefined);
+}
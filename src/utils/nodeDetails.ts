@@ -0,0 +1,186 @@
+import * as ts from 'typescript';
+import { getNodeTypeName } from './parser';
+import { childPath, resolveNodePath } from './syntaxTree';
+
+/**
+ * A link to another node, labelled the way the tree views label it.
+ */
+export interface NodeRef {
+  path: string;
+  kind: ts.SyntaxKind;
+  label: string;
+}
+
+/**
+ * A named child field of a node ("name", "parameters", "body"...). NodeArray
+ * fields hold a list, single fields a node, and absent optional fields nothing.
+ */
+export interface ChildSlot {
+  name: string;
+  value: NodeRef | NodeRef[] | null;
+}
+
+/**
+ * Everything the inspector shows about one node, as plain data.
+ */
+export interface NodeDetails {
+  path: string;
+  kind: ts.SyntaxKind;
+  pos: number; // Full start, leading trivia included
+  start: number; // getStart() - first character of the node's own text
+  end: number;
+  text: string; // Source text from start to end (truncated)
+  parent: NodeRef | null;
+  nodeFlags: string[];
+  modifierFlags: string[];
+  slots: ChildSlot[];
+  properties: { name: string; value: string }[];
+}
+
+const MAX_TEXT_LENGTH = 200;
+
+// Bookkeeping the compiler hangs on nodes - not part of the syntax
+export const internalProperties = new Set([
+  'pos', 'end', 'kind', 'flags', 'parent', 'id', 'original', 'emitNode',
+  'modifierFlagsCache', 'transformFlags', 'symbol', 'localSymbol', 'locals',
+  'nextContainer', 'flowNode', 'endFlowNode', 'returnFlowNode', 'jsDoc',
+  'jsDocCache', 'lineMap', 'identifiers', 'parseDiagnostics', 'bindDiagnostics',
+  'bindSuggestionDiagnostics', 'text',
+  // SourceFile-only: program and module-resolution state
+  'path', 'resolvedPath', 'originalFileName', 'externalModuleIndicator',
+  'setExternalModuleIndicator', 'checkJsDirective', 'commentDirectives', 'pragmas',
+  'referencedFiles', 'typeReferenceDirectives', 'libReferenceDirectives',
+  'amdDependencies', 'packageJsonLocations', 'packageJsonScope', 'imports',
+  'moduleAugmentations', 'ambientModuleNames', 'classifiableNames',
+  'impliedNodeFormat', 'symbolCount', 'jsDocParsingMode',
+]);
+
+// Numeric properties that are really enum members
+export const enumProperties: Record<string, (value: number) => string> = {
+  operator: getNodeTypeName,
+  token: getNodeTypeName,
+  keywordToken: getNodeTypeName,
+  originalKeywordKind: getNodeTypeName,
+  languageVersion: (value) => ts.ScriptTarget[value],
+  languageVariant: (value) => ts.LanguageVariant[value],
+  scriptKind: (value) => ts.ScriptKind[value],
+};
+
+/**
+ * Names of the single-bit members set in a flags value.
+ */
+export function decodeFlags(flags: number, flagsEnum: Record<string, string | number>): string[] {
+  const names: string[] = [];
+  const seen = new Set<number>();
+
+  for (const [name, value] of Object.entries(flagsEnum)) {
+    if (typeof value !== 'number' || value === 0 || (value & (value - 1)) !== 0) continue;
+    if (seen.has(value) || (flags & value) === 0) continue;
+    seen.add(value);
+    names.push(name);
+  }
+  return names;
+}
+
+export function isNode(value: unknown): value is ts.Node {
+  return typeof value === 'object' && value !== null && typeof (value as ts.Node).kind === 'number' &&
+    typeof (value as ts.Node).pos === 'number';
+}
+
+export function describeRef(node: ts.Node, path: string): NodeRef {
+  const kind = node.kind;
+  let label = getNodeTypeName(kind);
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+    label += `: ${node.text}`;
+  } else if (ts.isStringLiteral(node) || ts.isNumericLiteral(node)) {
+    label += `: ${ts.isStringLiteral(node) ? JSON.stringify(node.text) : node.text}`;
+  }
+  return { path, kind, label };
+}
+
+function describeValue(name: string, value: unknown): string {
+  if (typeof value === 'number' && enumProperties[name]) {
+    return `${enumProperties[name](value)} (${value})`;
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > MAX_TEXT_LENGTH ? `${value.slice(0, MAX_TEXT_LENGTH)}…` : value);
+  }
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  return String(value);
+}
+
+/**
+ * Describe the node at a path (runs in the worker, against the real tree).
+ *
+ * PARSING INSIGHT: Named Children
+ * ================================
+ * The tree views show a node's children as a plain list, but each child
+ * sits in a named field of its parent, and the names carry the grammar:
+ *
+ *   IfStatement
+ *     expression:    the condition
+ *     thenStatement: what runs when it's true
+ *     elseStatement: undefined - there's no else
+ *
+ * Fields holding lists (parameters, statements, arguments) are NodeArrays,
+ * which carry their own pos/end and a trailing-comma flag. Linters and
+ * codemods address nodes by these names: "the body of every arrow function",
+ * "the second argument of a call".
+ */
+export function describeNode(sourceFile: ts.SourceFile, path: string): NodeDetails | null {
+  const node = resolveNodePath(sourceFile, path);
+  if (!node) return null;
+
+  // Direct children, by identity, so fields can be matched to paths
+  const childPaths = new Map<ts.Node, string>();
+  let index = 0;
+  ts.forEachChild(node, (child) => {
+    childPaths.set(child, childPath(path, index++));
+  });
+
+  const slots: ChildSlot[] = [];
+  const properties: NodeDetails['properties'] = [];
+
+  for (const [name, value] of Object.entries(node)) {
+    if (internalProperties.has(name) || typeof value === 'function') continue;
+
+    if (isNode(value) && childPaths.has(value)) {
+      slots.push({ name, value: describeRef(value, childPaths.get(value)!) });
+    } else if (Array.isArray(value) && value.length > 0 && value.every((item) => childPaths.has(item))) {
+      slots.push({ name, value: value.map((item) => describeRef(item, childPaths.get(item)!)) });
+    } else if (Array.isArray(value) && 'hasTrailingComma' in value) {
+      slots.push({ name, value: [] }); // An empty NodeArray
+    } else if (value === undefined) {
+      slots.push({ name, value: null });
+    } else if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      properties.push({ name, value: describeValue(name, value) });
+    }
+  }
+
+  // Identifiers and literals keep their text in "text" - worth showing there
+  if ('text' in node && !ts.isSourceFile(node)) {
+    properties.unshift({ name: 'text', value: describeValue('text', (node as { text: unknown }).text) });
+  }
+
+  const start = node.getStart(sourceFile);
+  const text = sourceFile.text.slice(start, node.end);
+  const parentPath = path.includes('.') ? path.slice(0, path.lastIndexOf('.')) : '';
+
+  return {
+    path,
+    kind: node.kind,
+    pos: node.pos,
+    start,
+    end: node.end,
+    text: text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text,
+    parent: node.parent && path !== '' ? describeRef(node.parent, parentPath) : null,
+    nodeFlags: decodeFlags(node.flags, ts.NodeFlags as unknown as Record<string, number>),
+    modifierFlags: decodeFlags(
+      // Includes modifiers inherited from the declaring statement ("export const")
+      ts.getCombinedModifierFlags(node as ts.Declaration),
+      ts.ModifierFlags as unknown as Record<string, number>
+    ),
+    slots,
+    properties,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * The bits of Node's `process` that typescript-estree reads while setting up
+ * a parse - environment switches, argv, the platform and the working
+ * directory - so the ESTree export can run in a browser worker. Import it
+ * before typescript-estree; it leaves a real `process` alone.
+ */
+const scope = globalThis as typeof globalThis & { process?: object };
+
+scope.process ??= {
+  env: {},
+  argv: [],
+  platform: 'browser',
+  cwd: () => '/',
+};
+
+export {};
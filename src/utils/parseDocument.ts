@@ -0,0 +1,62 @@
+import { ParseDiagnostic, ParseResult } from './parser';
+import { serializeSyntaxTree, SyntaxTreeNode } from './syntaxTree';
+import { astRootToHierarchy, HierarchyNode } from './astToHierarchy';
+import { computeRadialLayout, computeRingsLayout } from './layouts';
+import { scanTokens, TokenInfo } from './tokens';
+import { analyzeScopes, ScopeAnalysis } from './scopes';
+
+/**
+ * How the tree was produced: from scratch, or by patching the previous one.
+ */
+export interface ReparseStats {
+  incremental: boolean;
+  reusedNodes: number; // Nodes carried over from the previous tree
+  totalNodes: number;
+}
+
+/**
+ * Everything the views need from one parse, as plain data that can be posted
+ * from the parse worker to the main thread.
+ */
+export interface ParsedDocument {
+  success: true;
+  tree: SyntaxTreeNode; // Full tree for the Nodes view, selection and highlighting
+  hierarchy: HierarchyNode; // With ring/branch layouts for the Rings and Radial views
+  diagnostics: ParseDiagnostic[];
+  tokens: TokenInfo[]; // Scanner output, trivia included, for the Tokens view
+  scopes: ScopeAnalysis; // Scopes, declarations and the references bound to them
+  reparse: ReparseStats;
+}
+
+/**
+ * Do all the per-parse work that's too slow for the main thread: serialize
+ * the tree, build the hierarchy and lay it out, scan the token stream and
+ * resolve every name to its declaration.
+ */
+export function toParsedDocument({ ast, diagnostics, reusedNodes }: ParseResult): ParsedDocument {
+  const hierarchy = astRootToHierarchy(ast, reusedNodes);
+  computeRingsLayout(hierarchy);
+  computeRadialLayout(hierarchy);
+
+  const tree = serializeSyntaxTree(ast, reusedNodes);
+  let totalNodes = 0;
+  const count = (node: SyntaxTreeNode) => {
+    totalNodes++;
+    node.children.forEach(count);
+  };
+  count(tree);
+
+  return {
+    success: true,
+    tree,
+    hierarchy,
+    diagnostics,
+    tokens: scanTokens(ast),
+    scopes: analyzeScopes(ast),
+    reparse: {
+      incremental: reusedNodes !== undefined,
+      reusedNodes: reusedNodes?.size ?? 0,
+      totalNodes,
+    },
+  };
+}
@@ -1,15 +1,120 @@
 import * as ts from 'typescript';
 
+/**
+ * Which grammar the parser should apply to the text. The same characters can
+ * mean different things: "<T>(x: T) => x" is a generic arrow function in .ts,
+ * but an unclosed JSX element in .tsx.
+ */
+export type LanguageMode = 'js' | 'jsx' | 'ts' | 'tsx' | 'json' | 'dts';
+
+/**
+ * Whether the file is parsed as a classic script or an ES module. Modules
+ * reserve "await" at the top level, so "await (x)" is an AwaitExpression in a
+ * module but a call to a function named "await" in a script.
+ */
+export type ModuleDetection = 'auto' | 'script' | 'module';
+
+export interface ParseOptions {
+  language: LanguageMode;
+  target: ts.ScriptTarget;
+  module: ModuleDetection;
+}
+
+export const defaultParseOptions: ParseOptions = {
+  language: 'tsx',
+  target: ts.ScriptTarget.Latest,
+  module: 'auto',
+};
+
+// The file name matters: TypeScript derives isDeclarationFile from ".d.ts"
+export const languageModes: Record<LanguageMode, { label: string; fileName: string; scriptKind: ts.ScriptKind }> = {
+  js: { label: 'JavaScript', fileName: 'temp.js', scriptKind: ts.ScriptKind.JS },
+  jsx: { label: 'JSX', fileName: 'temp.jsx', scriptKind: ts.ScriptKind.JSX },
+  ts: { label: 'TypeScript', fileName: 'temp.ts', scriptKind: ts.ScriptKind.TS },
+  tsx: { label: 'TSX', fileName: 'temp.tsx', scriptKind: ts.ScriptKind.TSX },
+  json: { label: 'JSON', fileName: 'temp.json', scriptKind: ts.ScriptKind.JSON },
+  dts: { label: 'Declaration (.d.ts)', fileName: 'temp.d.ts', scriptKind: ts.ScriptKind.TS },
+};
+
+export const scriptTargets: { target: ts.ScriptTarget; label: string }[] = [
+  { target: ts.ScriptTarget.ES5, label: 'ES5' },
+  { target: ts.ScriptTarget.ES2015, label: 'ES2015' },
+  { target: ts.ScriptTarget.ES2017, label: 'ES2017' },
+  { target: ts.ScriptTarget.ES2020, label: 'ES2020' },
+  { target: ts.ScriptTarget.ES2022, label: 'ES2022' },
+  { target: ts.ScriptTarget.Latest, label: 'ESNext' },
+];
+
+export const moduleDetections: { module: ModuleDetection; label: string }[] = [
+  { module: 'auto', label: 'Auto (import/export)' },
+  { module: 'script', label: 'Script' },
+  { module: 'module', label: 'ES Module' },
+];
+
+/**
+ * Parse options read back from outside (a link, saved data): anything the
+ * parser doesn't know falls back to the default.
+ */
+export function sanitizeParseOptions(options: unknown): ParseOptions {
+  const candidate = (typeof options === 'object' && options !== null ? options : {}) as Partial<ParseOptions>;
+  return {
+    language: Object.keys(languageModes).includes(candidate.language as string)
+      ? candidate.language!
+      : defaultParseOptions.language,
+    target: scriptTargets.some(({ target }) => target === candidate.target)
+      ? candidate.target!
+      : defaultParseOptions.target,
+    module: moduleDetections.some(({ module }) => module === candidate.module)
+      ? candidate.module!
+      : defaultParseOptions.module,
+  };
+}
+
+/**
+ * A syntax error reported by the parser, flattened into plain data so the UI
+ * doesn't need to know about ts.Diagnostic message chains.
+ */
+export interface ParseDiagnostic {
+  message: string;
+  category: ts.DiagnosticCategory;
+  code: number;
+  start: number;
+  length: number;
+  line: number; // 1-based, like an editor gutter
+  column: number; // 1-based
+}
+
 export interface ParseResult {
   success: true;
   ast: ts.SourceFile;
+  diagnostics: ParseDiagnostic[];
+  // Set when the tree was updated incrementally: nodes carried over from the
+  // previous tree instead of being parsed again
+  reusedNodes?: ReadonlySet<ts.Node>;
+}
+
+/**
+ * One edit to the source text, in the coordinates of the text before it was
+ * applied: the characters from..to were replaced by insertLength new ones.
+ */
+export interface TextEdit {
+  from: number;
+  to: number;
+  insertLength: number;
+}
+
+/**
+ * The previous parse of the same file, plus every edit made since (oldest
+ * first) - enough for the parser to patch the old tree instead of starting over.
+ */
+export interface PreviousParse {
+  sourceFile: ts.SourceFile;
+  edits: TextEdit[];
 }
 
 export interface ParseError {
   success: false;
   error: string;
-  line?: number;
-  column?: number;
 }
 
 /**
@@ -40,9 +145,16 @@ export interface ParseError {
  * then decide whether to execute the block."
  */
 export function parseCode(
-  sourceCode: string
+  sourceCode: string,
+  options: ParseOptions = defaultParseOptions,
+  previous?: PreviousParse
 ): ParseResult | ParseError {
   try {
+    if (previous) {
+      const result = reparseIncrementally(sourceCode, previous);
+      if (result) return result;
+    }
+
     /**
      * PARSING INSIGHT #3: Parser Configuration
      * ==============================================
@@ -56,36 +168,44 @@ export function parseCode(
      * - Fault-tolerant: returns partial AST even with syntax errors
      *
      * createSourceFile parameters:
-     * 1. fileName: Just for error messages (not actually reading a file)
+     * 1. fileName: Picks the flavour of file (".d.ts" marks a declaration file)
      * 2. sourceCode: The actual code string to parse
-     * 3. languageVersion: ES2020, ES2015, etc. (we use Latest for max features)
+     * 3. languageVersion + module detection: which ECMAScript edition, and
+     *    whether the text is a script or an ES module
      * 4. setParentNodes: true = each node knows its parent (useful for traversal)
-     * 5. scriptKind: TSX mode handles JS, TS, AND JSX/TSX syntax
+     * 5. scriptKind: JS, JSX, TS, TSX or JSON grammar
      *
-     * PARSING INSIGHT #3a: Why ScriptKind.TSX?
+     * PARSING INSIGHT #3a: Why the language mode matters
      * ==============================================
      * TSX is the most permissive mode - it's a superset that handles:
      * - Regular JavaScript ✅
      * - TypeScript with types ✅
      * - JSX/TSX syntax (React components) ✅
      *
-     * Known quirk: Arrow functions with generic type parameters have ambiguous syntax:
+     * ...but it pays for JSX with an ambiguity. Arrow functions with generic
+     * type parameters and angle-bracket type assertions look like tags:
      *   const identity = <T>(x: T) => x;  // TSX mode thinks <T> is JSX opening tag!
+     *   const value = <string>input;      // TSX mode sees a <string> element
      *
-     * Workaround (required in TSX mode):
+     * In TS mode both parse as intended. In TSX mode they need a workaround:
      *   const identity = <T,>(x: T) => x;  // Trailing comma disambiguates
      *   const identity = <T extends unknown>(x: T) => x;  // Or add constraint
+     *   const value = input as string;     // "as" instead of angle brackets
      *
-     * This is a known TypeScript design trade-off. We accept it because JSX support
-     * is more valuable than angle-bracket generic arrow functions (which are rare
-     * and have easy workarounds).
+     * This is a known TypeScript design trade-off, which is why the language
+     * mode is selectable: flip between TS and TSX to watch the tree change.
      */
+    const { fileName, scriptKind } = languageModes[options.language];
+
     const ast = ts.createSourceFile(
-      'temp.tsx',
+      fileName,
       sourceCode,
-      ts.ScriptTarget.Latest,
+      {
+        languageVersion: options.target,
+        setExternalModuleIndicator: getModuleIndicatorSetter(options.module),
+      },
       true, // setParentNodes
-      ts.ScriptKind.TSX
+      scriptKind
     );
 
     /**
@@ -104,12 +224,14 @@ export function parseCode(
      * with incomplete code, returning partial ASTs that tools can reason about.
      *
      * For our visualizer, we return the full AST regardless of errors, letting
-     * you see how the parser interprets even malformed code.
+     * you see how the parser interprets even malformed code. The errors the
+     * parser recovered from travel alongside it as diagnostics.
      */
 
     return {
       success: true,
       ast,
+      diagnostics: getParseDiagnostics(ast),
     };
   } catch (error) {
     return {
@@ -119,6 +241,154 @@ export function parseCode(
   }
 }
 
+/**
+ * Update the previous tree in place of a full parse.
+ *
+ * PARSING INSIGHT: Incremental Reparsing
+ * ==============================================
+ * An IDE re-parses on every keystroke, and most keystrokes change a few
+ * characters in a file of thousands. ts.updateSourceFile takes the old tree
+ * and the range that changed, re-scans only around that range, and carries
+ * every node outside it across to the new tree as-is (shifting positions
+ * after the edit). Only the nodes touching the edit - and the chain of
+ * parents above them - are built fresh.
+ *
+ * The edits from the editor are collapsed into one TextChangeRange covering
+ * all of them. If they don't actually describe how the old text became the
+ * new one (an edit got lost between editor and worker), the parser would
+ * happily build a wrong tree, so we check first and fall back to a full parse.
+ */
+function reparseIncrementally(
+  sourceCode: string,
+  { sourceFile, edits }: PreviousParse
+): ParseResult | null {
+  // No edits collapses to an unchanged range: the old tree comes back as-is
+  const change = ts.collapseTextChangeRangesAcrossMultipleVersions(
+    edits.map(({ from, to, insertLength }) =>
+      ts.createTextChangeRange(ts.createTextSpan(from, to - from), insertLength)
+    )
+  );
+
+  const oldText = sourceFile.text;
+  const changeStart = change.span.start;
+  const oldChangeEnd = ts.textSpanEnd(change.span);
+  const newChangeEnd = changeStart + change.newLength;
+  const isConsistent =
+    sourceCode.length === oldText.length - change.span.length + change.newLength &&
+    sourceCode.slice(0, changeStart) === oldText.slice(0, changeStart) &&
+    sourceCode.slice(newChangeEnd) === oldText.slice(oldChangeEnd);
+  if (!isConsistent) return null;
+
+  // The old tree is mutated by the update, so note its nodes beforehand
+  const oldNodes = new Set<ts.Node>();
+  const collect = (node: ts.Node) => {
+    oldNodes.add(node);
+    ts.forEachChild(node, collect);
+  };
+  collect(sourceFile);
+
+  try {
+    const ast = ts.updateSourceFile(sourceFile, sourceCode, change);
+
+    const reusedNodes = new Set<ts.Node>();
+    const visit = (node: ts.Node) => {
+      if (oldNodes.has(node)) reusedNodes.add(node);
+      ts.forEachChild(node, visit);
+    };
+    visit(ast);
+
+    return {
+      success: true,
+      ast,
+      diagnostics: getParseDiagnostics(ast),
+      reusedNodes,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decide whether a parsed file counts as an ES module.
+ *
+ * Returning undefined keeps TypeScript's own heuristic (any import/export
+ * makes it a module). The indicator property is internal to the compiler,
+ * which is why the forced modes write it through a cast.
+ */
+function getModuleIndicatorSetter(
+  module: ModuleDetection
+): ((file: ts.SourceFile) => void) | undefined {
+  if (module === 'auto') return undefined;
+
+  return (file) => {
+    (file as ts.SourceFile & { externalModuleIndicator?: true }).externalModuleIndicator =
+      module === 'module' ? true : undefined;
+  };
+}
+
+/**
+ * Collect the syntax errors the parser recovered from while building the tree.
+ *
+ * createSourceFile never throws on bad input - it records what went wrong in
+ * the SourceFile's parseDiagnostics. That property is internal to the
+ * compiler (it's what getSyntacticDiagnostics() returns under the hood), so
+ * it isn't in the public typings and we read it through a cast.
+ */
+export function getParseDiagnostics(sourceFile: ts.SourceFile): ParseDiagnostic[] {
+  const { parseDiagnostics = [] } = sourceFile as ts.SourceFile & {
+    parseDiagnostics?: readonly ts.DiagnosticWithLocation[];
+  };
+  return toParseDiagnostics(sourceFile, parseDiagnostics);
+}
+
+/**
+ * Flatten compiler diagnostics about a file into plain data. Diagnostics
+ * without a position (global ones, like a missing lib) are dropped.
+ */
+export function toParseDiagnostics(
+  sourceFile: ts.SourceFile,
+  diagnostics: readonly ts.Diagnostic[]
+): ParseDiagnostic[] {
+  return diagnostics.filter(hasLocation).map((diagnostic) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+    return {
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      category: diagnostic.category,
+      code: diagnostic.code,
+      start: diagnostic.start,
+      length: diagnostic.length,
+      line: line + 1,
+      column: character + 1,
+    };
+  });
+}
+
+function hasLocation(diagnostic: ts.Diagnostic): diagnostic is ts.Diagnostic & { start: number; length: number } {
+  return diagnostic.start !== undefined && diagnostic.length !== undefined;
+}
+
+/**
+ * Was this node invented by the parser during error recovery?
+ *
+ * PARSING INSIGHT: Missing Nodes
+ * ==============================================
+ * When the grammar demands something that isn't there - the initializer in
+ * "const x = ;", the closing tag in "<div>" - the parser doesn't give up.
+ * It creates a placeholder node with zero width (pos === end) so the tree
+ * keeps its expected shape, and flags it with ThisNodeHasError.
+ *
+ * Zero-width tokens are always placeholders. Other zero-width nodes can be
+ * legitimate (an OmittedExpression in "[, 1]"), so those only count when the
+ * parser flagged them.
+ */
+export function isMissingNode(node: ts.Node): boolean {
+  if (node.pos !== node.end || node.kind === ts.SyntaxKind.EndOfFileToken) {
+    return false;
+  }
+
+  return ts.isToken(node) || (node.flags & ts.NodeFlags.ThisNodeHasError) !== 0;
+}
+
 /**
  * Get a human-readable name for a SyntaxKind enum value
  *
@@ -139,7 +409,19 @@ export function parseCode(
  * - Refactoring: "Find all Identifier nodes with name 'oldName', rename to 'newName'"
  *
  * This function converts the number back to a readable string for display.
+ * The enum also has range markers that share a value with a real kind
+ * (FirstAssignment is EqualsToken, FirstStatement is VariableStatement), and
+ * ts.SyntaxKind[kind] can return those - so the real names win here.
  */
 export function getNodeTypeName(kind: ts.SyntaxKind): string {
-  return ts.SyntaxKind[kind];
+  return syntaxKindNames.get(kind) ?? ts.SyntaxKind[kind];
+}
+
+const syntaxKindNames = new Map<number, string>();
+for (const [name, value] of Object.entries(ts.SyntaxKind)) {
+  if (typeof value !== 'number') continue;
+  const current = syntaxKindNames.get(value);
+  if (current === undefined || /^(First|Last)[A-Z]/.test(current)) {
+    syntaxKindNames.set(value, name);
+  }
 }
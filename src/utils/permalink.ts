@@ -0,0 +1,93 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { ParseOptions, sanitizeParseOptions } from './parser';
+
+/**
+ * Everything a permalink restores: the code, where it came from, and how it
+ * was being looked at.
+ */
+export interface PermalinkState {
+  code: string;
+  example: string; // Preset example name, or "Custom"
+  vizMode: string;
+  parseOptions: ParseOptions;
+  selectedPath: string | null; // Node path of the selection, if any
+}
+
+// Bump when the stored shape changes; older links are then ignored
+const PERMALINK_VERSION = 1;
+const HASH_PREFIX = 'code/';
+
+interface StoredPermalink {
+  v: number;
+  c?: string; // Code - left out when it's the named example's, unchanged
+  e: string;
+  m: string;
+  o: ParseOptions;
+  n?: string;
+}
+
+/**
+ * Encode state as a URL hash (without the "#").
+ *
+ * Pass the example's code when the editor still holds it unchanged: the
+ * link then names the example instead of carrying its text, which keeps
+ * links to the presets short.
+ */
+export function encodePermalink(state: PermalinkState, exampleCode?: string): string {
+  const stored: StoredPermalink = {
+    v: PERMALINK_VERSION,
+    e: state.example,
+    m: state.vizMode,
+    o: state.parseOptions,
+  };
+  if (state.code !== exampleCode) stored.c = state.code;
+  if (state.selectedPath !== null) stored.n = state.selectedPath;
+
+  return HASH_PREFIX + compressToEncodedURIComponent(JSON.stringify(stored));
+}
+
+/**
+ * Decode a URL hash written by encodePermalink. Returns null for any other
+ * hash, or one that doesn't hold a state this version understands.
+ *
+ * The code is undefined when the link only names an example; look it up by
+ * name.
+ */
+export function decodePermalink(hash: string): (Omit<PermalinkState, 'code'> & { code?: string }) | null {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(HASH_PREFIX)) return null;
+
+  let stored: Partial<StoredPermalink>;
+  try {
+    stored = JSON.parse(decompressFromEncodedURIComponent(fragment.slice(HASH_PREFIX.length)) ?? '');
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof stored !== 'object' ||
+    stored === null ||
+    stored.v !== PERMALINK_VERSION ||
+    typeof stored.e !== 'string' ||
+    typeof stored.m !== 'string' ||
+    (stored.c !== undefined && typeof stored.c !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    code: stored.c,
+    example: stored.e,
+    vizMode: stored.m,
+    parseOptions: sanitizeParseOptions(stored.o),
+    selectedPath: typeof stored.n === 'string' && /^(\d+(\.\d+)*)?$/.test(stored.n) ? stored.n : null,
+  };
+}
+
+/**
+ * The full URL for a state - what "Copy link" copies and the QR code holds.
+ */
+export function permalinkUrl(hash: string): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${hash}`;
+}
@@ -0,0 +1,28 @@
+import qrcode from 'qrcode-generator';
+
+/**
+ * Encode text as a QR code, entirely in the browser.
+ *
+ * Returns an SVG path drawing the dark modules (one unit square each) and
+ * the code's size in modules, or null when the text is too long for even
+ * the largest QR version - about 2,900 characters at the lowest error
+ * correction level.
+ */
+export function createQrPath(text: string): { path: string; size: number } | null {
+  const code = qrcode(0, 'L'); // 0: the smallest version that fits
+  try {
+    code.addData(text);
+    code.make();
+  } catch {
+    return null;
+  }
+
+  const size = code.getModuleCount();
+  let path = '';
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (code.isDark(row, col)) path += `M${col} ${row}h1v1h-1z`;
+    }
+  }
+  return { path, size };
+}
@@ -0,0 +1,435 @@
+import * as ts from 'typescript';
+import { getNodeTypeName } from './parser';
+import { childPath } from './syntaxTree';
+
+/**
+ * One node a selector matched, as plain data for highlighting.
+ */
+export interface QueryMatch {
+  path: string;
+  start: number;
+  end: number;
+}
+
+export type QueryResult =
+  | { success: true; matches: QueryMatch[] }
+  | { success: false; error: string; column: number }; // 1-based column in the selector
+
+type Combinator = 'descendant' | 'child' | 'sibling' | 'adjacent';
+
+type AttributeValue =
+  | { type: 'literal'; value: string | number | boolean }
+  | { type: 'name'; value: string } // Bare word: a SyntaxKind name, or text
+  | { type: 'regexp'; value: RegExp };
+
+type AttributeOperator = '=' | '!=' | '^=' | '$=' | '*=';
+
+type Filter =
+  | { type: 'attribute'; path: string[]; operator?: AttributeOperator; value?: AttributeValue }
+  | { type: 'has' | 'not' | 'is'; selectors: ComplexSelector[] }
+  | { type: 'first-child' | 'last-child' };
+
+interface CompoundSelector {
+  kind: ts.SyntaxKind | null; // null for "*" or a compound that starts with a filter
+  filters: Filter[];
+}
+
+// Compounds left to right; each one after the first says how it relates to the previous
+type ComplexSelector = { combinator: Combinator | null; compound: CompoundSelector }[];
+
+const NAME = /[A-Za-z_$][\w$-]*/y;
+
+// Kind names to values; a Map, so names like "toString" aren't found on a prototype
+const syntaxKindsByName = new Map(
+  Object.entries(ts.SyntaxKind).filter((entry): entry is [string, ts.SyntaxKind] => typeof entry[1] === 'number')
+);
+const NUMBER = /-?\d+(\.\d+)?/y;
+
+/**
+ * Recursive-descent parser for the selector syntax. Errors are thrown with
+ * the column they happened at, and reported by selectNodes.
+ */
+function parseSelectors(text: string): ComplexSelector[] {
+  let index = 0;
+
+  const fail = (message: string): never => {
+    throw Object.assign(new Error(message), { column: index + 1 });
+  };
+
+  const peek = () => text[index] ?? '';
+
+  const skipSpace = (): boolean => {
+    const start = index;
+    while (/\s/.test(peek())) index++;
+    return index > start;
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (peek() !== char) fail(`Expected "${char}"`);
+    index++;
+  };
+
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = index;
+    const found = pattern.exec(text);
+    if (!found) return null;
+    index += found[0].length;
+    return found[0];
+  };
+
+  const parseList = (allowLeading: boolean): ComplexSelector[] => {
+    const selectors = [parseComplex(allowLeading)];
+    skipSpace();
+    while (peek() === ',') {
+      index++;
+      selectors.push(parseComplex(allowLeading));
+      skipSpace();
+    }
+    return selectors;
+  };
+
+  const parseComplex = (allowLeading: boolean): ComplexSelector => {
+    skipSpace();
+    // ":has(> Child)" - a leading combinator relates to the node being tested.
+    // Anywhere else there's no node for it to relate to
+    const start = index;
+    const leading = parseCombinator(false);
+    if (leading && !allowLeading) {
+      index = start;
+      fail('Only a selector inside :has() can start with a combinator');
+    }
+    const parts: ComplexSelector = [{ combinator: leading, compound: parseCompound() }];
+
+    for (;;) {
+      const combinator = parseCombinator(true);
+      if (!combinator) return parts;
+      parts.push({ combinator, compound: parseCompound() });
+    }
+  };
+
+  const parseCombinator = (allowDescendant: boolean): Combinator | null => {
+    const start = index;
+    const hadSpace = skipSpace();
+    const symbol = ({ '>': 'child', '~': 'sibling', '+': 'adjacent' } as Record<string, Combinator>)[peek()];
+
+    if (symbol) {
+      index++;
+      skipSpace();
+      return symbol;
+    }
+    // Whitespace followed by another compound is the descendant combinator
+    if (allowDescendant && hadSpace && peek() !== '' && !',)'.includes(peek())) {
+      return 'descendant';
+    }
+    index = start;
+    return null;
+  };
+
+  const parseCompound = (): CompoundSelector => {
+    const compound: CompoundSelector = { kind: null, filters: [] };
+    const start = index;
+
+    if (peek() === '*') {
+      index++;
+    } else {
+      const name = match(NAME);
+      if (name !== null) {
+        const kind = syntaxKindsByName.get(name);
+        if (kind === undefined) {
+          index = start;
+          return fail(`Unknown SyntaxKind "${name}"`);
+        }
+        compound.kind = kind;
+      }
+    }
+
+    for (;;) {
+      if (peek() === '[') {
+        compound.filters.push(parseAttribute());
+      } else if (peek() === ':') {
+        compound.filters.push(parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (index === start) fail('Expected a SyntaxKind name, "*", "[" or ":"');
+    return compound;
+  };
+
+  const parseAttribute = (): Filter => {
+    index++; // [
+    skipSpace();
+
+    const path: string[] = [];
+    do {
+      if (path.length > 0) index++; // .
+      path.push(match(NAME) ?? fail('Expected a property name'));
+    } while (peek() === '.');
+
+    skipSpace();
+    const operator = match(/!=|\^=|\$=|\*=|=/y) as AttributeOperator | null;
+    if (!operator) {
+      expect(']');
+      return { type: 'attribute', path };
+    }
+
+    skipSpace();
+    const valueStart = index;
+    const value = parseValue();
+    if (value.type === 'regexp' && operator !== '=' && operator !== '!=') {
+      index = valueStart;
+      fail(`A regular expression can only be compared with = or !=, not ${operator}`);
+    }
+    expect(']');
+    return { type: 'attribute', path, operator, value };
+  };
+
+  const parseValue = (): AttributeValue => {
+    const quote = peek();
+    if (quote === '"' || quote === "'") {
+      const end = text.indexOf(quote, index + 1);
+      if (end === -1) fail('Unterminated string');
+      const value = text.slice(index + 1, end);
+      index = end + 1;
+      return { type: 'literal', value };
+    }
+
+    if (quote === '/') {
+      const found = match(/\/((?:\\.|[^/\\])+)\/([gimsuy]*)/y) ?? fail('Unterminated regular expression');
+      const slash = found.lastIndexOf('/');
+      // g and y make test() resume from the last match's lastIndex, so one
+      // node's result would depend on the node tested before it
+      const flags = found.slice(slash + 1).replace(/[gy]/g, '');
+      try {
+        return { type: 'regexp', value: new RegExp(found.slice(1, slash), flags) };
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : 'Invalid regular expression');
+      }
+    }
+
+    const number = match(NUMBER);
+    if (number !== null) return { type: 'literal', value: Number(number) };
+
+    const name = match(NAME);
+    if (name === 'true' || name === 'false') return { type: 'literal', value: name === 'true' };
+    if (name !== null) return { type: 'name', value: name };
+
+    return fail('Expected a value');
+  };
+
+  const parsePseudo = (): Filter => {
+    index++; // :
+    const name = match(NAME);
+
+    switch (name) {
+      case 'first-child':
+      case 'last-child':
+        return { type: name };
+      case 'has':
+      case 'not':
+      case 'is': {
+        expect('(');
+        const selectors = parseList(name === 'has');
+        expect(')');
+        return { type: name, selectors };
+      }
+      default:
+        return fail(`Unknown pseudo-class ":${name ?? ''}"`);
+    }
+  };
+
+  const selectors = parseList(false);
+  skipSpace();
+  if (index < text.length) fail(`Unexpected "${peek()}"`);
+  return selectors;
+}
+
+/**
+ * Runs one query: caches each node's children, since sibling and :has
+ * checks ask for them over and over.
+ */
+function createMatcher(sourceFile: ts.SourceFile) {
+  const childrenCache = new Map<ts.Node, ts.Node[]>();
+
+  const childrenOf = (node: ts.Node): ts.Node[] => {
+    let children = childrenCache.get(node);
+    if (!children) {
+      children = [];
+      ts.forEachChild(node, (child) => {
+        children!.push(child);
+      });
+      childrenCache.set(node, children);
+    }
+    return children;
+  };
+
+  const readPath = (node: ts.Node, path: string[]): unknown => {
+    let value: unknown = node;
+    for (const name of path) {
+      if (value === null || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[name];
+    }
+    return value;
+  };
+
+  const compare = (actual: unknown, filter: Extract<Filter, { type: 'attribute' }>): boolean => {
+    if (!filter.operator || !filter.value) return actual !== undefined && actual !== null;
+
+    const expected = filter.value;
+    let text: string;
+    if (typeof actual === 'number' && expected.type === 'name') {
+      // [operatorToken.kind=PlusToken], [kind=Identifier]
+      text = getNodeTypeName(actual);
+    } else if (actual !== null && typeof actual === 'object' && 'kind' in actual) {
+      // A node compares by its source text: [name="log"]
+      text = (actual as ts.Node).getText(sourceFile);
+    } else if (actual === undefined || actual === null) {
+      return filter.operator === '!=';
+    } else {
+      text = String(actual);
+    }
+
+    const isEqual = expected.type === 'regexp'
+      ? expected.value.test(text)
+      : text === String(expected.value);
+
+    switch (filter.operator) {
+      case '=':
+        return isEqual;
+      case '!=':
+        return !isEqual;
+      case '^=':
+        return text.startsWith(String(expected.value));
+      case '$=':
+        return text.endsWith(String(expected.value));
+      case '*=':
+        return text.includes(String(expected.value));
+    }
+  };
+
+  // :has looks below the node only - its selector can't climb above it
+  const hasDescendant = (scope: ts.Node, selector: ComplexSelector, childrenOnly: boolean): boolean => {
+    const search = (node: ts.Node): boolean =>
+      childrenOf(node).some(
+        (child) =>
+          matchesComplex(child, selector, selector.length - 1, scope) || (!childrenOnly && search(child))
+      );
+    return search(scope);
+  };
+
+  const matchesCompound = (node: ts.Node, compound: CompoundSelector): boolean => {
+    if (compound.kind !== null && node.kind !== compound.kind) return false;
+
+    return compound.filters.every((filter) => {
+      switch (filter.type) {
+        case 'attribute':
+          return compare(readPath(node, filter.path), filter);
+        case 'not':
+          return !filter.selectors.some((selector) => matches(node, selector));
+        case 'is':
+          return filter.selectors.some((selector) => matches(node, selector));
+        case 'has':
+          return filter.selectors.some((selector) =>
+            hasDescendant(node, selector, selector.length === 1 && selector[0].combinator === 'child')
+          );
+        case 'first-child':
+        case 'last-child': {
+          const siblings = node.parent ? childrenOf(node.parent) : [node];
+          return siblings[filter.type === 'first-child' ? 0 : siblings.length - 1] === node;
+        }
+      }
+    });
+  };
+
+  // Match right to left: the last compound against the node, then walk
+  // outwards (parents) or backwards (siblings) for the ones before it.
+  // Inside :has, the node being tested bounds the walk.
+  const matchesComplex = (node: ts.Node, selector: ComplexSelector, index: number, scope?: ts.Node): boolean => {
+    if (!matchesCompound(node, selector[index].compound)) return false;
+
+    const { combinator } = selector[index];
+    if (index === 0) {
+      // ":has(> X)": X must sit directly under the node being tested
+      return !(scope && combinator === 'child') || node.parent === scope;
+    }
+
+    const parent = node.parent;
+    if (!parent) return false;
+
+    switch (combinator) {
+      case 'child':
+        return parent !== scope && matchesComplex(parent, selector, index - 1, scope);
+      case 'descendant':
+        for (let ancestor: ts.Node | undefined = parent; ancestor && ancestor !== scope; ancestor = ancestor.parent) {
+          if (matchesComplex(ancestor, selector, index - 1, scope)) return true;
+        }
+        return false;
+      case 'adjacent':
+      case 'sibling': {
+        const siblings = childrenOf(parent);
+        const position = siblings.indexOf(node);
+        const candidates = combinator === 'adjacent'
+          ? siblings.slice(Math.max(0, position - 1), position)
+          : siblings.slice(0, position);
+        return candidates.some((sibling) => matchesComplex(sibling, selector, index - 1, scope));
+      }
+      default:
+        return false;
+    }
+  };
+
+  const matches = (node: ts.Node, selector: ComplexSelector) =>
+    matchesComplex(node, selector, selector.length - 1);
+
+  return { matches, childrenOf };
+}
+
+/**
+ * Find every node matching a CSS-like selector (runs in the worker, against
+ * the real tree).
+ *
+ * PARSING INSIGHT: Querying Trees
+ * ================================
+ * A lint rule is mostly a description of a shape in the tree: "an await
+ * inside a try", "a call whose callee is console.log". Selectors borrow
+ * CSS's answer to the same problem for HTML - node types where CSS has tag
+ * names, property paths where it has attributes:
+ *
+ *   TryStatement AwaitExpression          an await anywhere inside a try
+ *   IfStatement > Block                   a block directly under an if
+ *   CallExpression[expression.name.text="log"]
+ *   FunctionDeclaration:not(:has(ReturnStatement))
+ *   BinaryExpression[operatorToken.kind=EqualsEqualsToken]
+ *
+ * ESLint's rule selectors (esquery) and tsquery work the same way. Matching
+ * runs right to left, like browsers do: find the nodes that fit the last
+ * part, then check their ancestors for the rest - most nodes fail the first
+ * check, so most of the tree is never climbed.
+ */
+export function selectNodes(sourceFile: ts.SourceFile, selectorText: string): QueryResult {
+  let selectors: ComplexSelector[];
+  try {
+    selectors = parseSelectors(selectorText);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid selector',
+      column: (error as { column?: number }).column ?? 1,
+    };
+  }
+
+  const { matches, childrenOf } = createMatcher(sourceFile);
+  const found: QueryMatch[] = [];
+
+  const visit = (node: ts.Node, path: string) => {
+    if (selectors.some((selector) => matches(node, selector))) {
+      found.push({ path, start: ts.isSourceFile(node) ? 0 : node.getStart(sourceFile), end: node.end });
+    }
+    childrenOf(node).forEach((child, index) => visit(child, childPath(path, index)));
+  };
+
+  visit(sourceFile, '');
+  return { success: true, matches: found };
+}
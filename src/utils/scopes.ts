@@ -0,0 +1,475 @@
+import * as ts from 'typescript';
+import { childPath } from './syntaxTree';
+
+export type ScopeKind = 'module' | 'global' | 'function' | 'block' | 'catch' | 'class' | 'type';
+
+export type BindingKind =
+  | 'var'
+  | 'let'
+  | 'const'
+  | 'function'
+  | 'class'
+  | 'parameter'
+  | 'import'
+  | 'catch'
+  | 'type' // Interfaces, type aliases and type parameters
+  | 'enum'
+  | 'namespace'
+  | 'implicit'; // Never declared: a global from the environment, or a typo
+
+/**
+ * One use of a name that resolved to a binding.
+ */
+export interface Reference {
+  path: string; // The Identifier's node path
+  from: number;
+  to: number;
+  isWrite: boolean; // Assigned to, or incremented/decremented
+}
+
+/**
+ * A declared name, and everywhere it's used.
+ */
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  path: string | null; // The declaring Identifier; null for implicit globals
+  from: number;
+  to: number;
+  references: Reference[];
+}
+
+/**
+ * A region of code where names can be declared, as plain data.
+ */
+export interface Scope {
+  kind: ScopeKind;
+  label: string; // "function add", "for", "class Point"...
+  path: string; // Node that opens the scope
+  from: number;
+  to: number;
+  startLine: number; // 1-based
+  endLine: number;
+  declarations: Binding[];
+  children: Scope[];
+}
+
+export interface ScopeAnalysis {
+  root: Scope;
+  implicitGlobals: Binding[]; // Names used but declared nowhere in the file
+}
+
+/**
+ * Nodes that can't see their own name: "x" in "obj.x" or "{ x: 1 }" is a
+ * property, not a variable.
+ */
+function isReferencePosition(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (!parent) return false;
+
+  switch (parent.kind) {
+    case ts.SyntaxKind.PropertyAccessExpression:
+      return (parent as ts.PropertyAccessExpression).expression === node;
+    case ts.SyntaxKind.QualifiedName:
+      return (parent as ts.QualifiedName).left === node;
+    case ts.SyntaxKind.PropertyAssignment:
+    case ts.SyntaxKind.PropertyDeclaration:
+    case ts.SyntaxKind.PropertySignature:
+    case ts.SyntaxKind.MethodDeclaration:
+    case ts.SyntaxKind.MethodSignature:
+    case ts.SyntaxKind.GetAccessor:
+    case ts.SyntaxKind.SetAccessor:
+    case ts.SyntaxKind.EnumMember:
+      return (parent as ts.NamedDeclaration).name !== node;
+    case ts.SyntaxKind.BindingElement:
+      // propertyName is a property and name a declaration; a default value is a use
+      return (parent as ts.BindingElement).initializer === node;
+    case ts.SyntaxKind.ImportSpecifier:
+      return false;
+    case ts.SyntaxKind.ExportSpecifier: {
+      const specifier = parent as ts.ExportSpecifier;
+      // "export { a as b }": a is the local, b only a name for importers
+      return (specifier.propertyName ?? specifier.name) === node && !specifier.parent.parent.moduleSpecifier;
+    }
+    case ts.SyntaxKind.LabeledStatement:
+    case ts.SyntaxKind.BreakStatement:
+    case ts.SyntaxKind.ContinueStatement:
+    case ts.SyntaxKind.MetaProperty:
+    case ts.SyntaxKind.JsxAttribute:
+    case ts.SyntaxKind.NamespaceExport:
+      return false;
+    case ts.SyntaxKind.JsxOpeningElement:
+    case ts.SyntaxKind.JsxSelfClosingElement:
+    case ts.SyntaxKind.JsxClosingElement:
+      // <div> is an intrinsic element; <Button> refers to a variable
+      return /^[A-Z_$]/.test(node.text);
+    default:
+      return true;
+  }
+}
+
+/**
+ * What a use of a name is looking for. Types and values live apart, so
+ * "type X" and "const X" can share a scope: X in "let a: X" means the type,
+ * X in "f(X)" the value. Qualified names and exports take either.
+ */
+function referenceMeaning(node: ts.Identifier): 'value' | 'type' | 'any' {
+  const parent = node.parent;
+  if (ts.isTypeReferenceNode(parent) && parent.typeName === node) return 'type';
+  if (ts.isExpressionWithTypeArguments(parent) && parent.expression === node) {
+    // "class A extends B" extends a value; implements and interface extends name types
+    const clause = parent.parent;
+    return ts.isHeritageClause(clause) &&
+      (clause.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(clause.parent))
+      ? 'type'
+      : 'value';
+  }
+  if (
+    ts.isQualifiedName(parent) ||
+    ts.isExportSpecifier(parent) ||
+    ts.isExportAssignment(parent) ||
+    ts.isImportEqualsDeclaration(parent)
+  ) {
+    return 'any';
+  }
+  return 'value';
+}
+
+// Kinds that declare only a value, or only a type; the rest (classes, enums,
+// namespaces, imports) declare both
+const valueOnlyKinds = new Set<BindingKind>(['var', 'let', 'const', 'function', 'parameter', 'catch']);
+const typeOnlyKinds = new Set<BindingKind>(['type']);
+
+function hasMeaning(binding: Binding, meaning: 'value' | 'type' | 'any'): boolean {
+  if (meaning === 'type') return !valueOnlyKinds.has(binding.kind);
+  if (meaning === 'value') return !typeOnlyKinds.has(binding.kind);
+  return true;
+}
+
+function isWriteReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isBinaryExpression(parent)) {
+    const operator = parent.operatorToken.kind;
+    return (
+      parent.left === node &&
+      operator >= ts.SyntaxKind.FirstAssignment &&
+      operator <= ts.SyntaxKind.LastAssignment
+    );
+  }
+  if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+    return (
+      parent.operator === ts.SyntaxKind.PlusPlusToken ||
+      parent.operator === ts.SyntaxKind.MinusMinusToken
+    );
+  }
+  return false;
+}
+
+function isFunctionScope(node: ts.Node): node is ts.SignatureDeclaration {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node)
+  );
+}
+
+// "infer U" declares U for the true branch of the conditional type it's in
+function containsInfer(node: ts.Node): boolean {
+  return ts.isInferTypeNode(node) || (ts.forEachChild(node, containsInfer) ?? false);
+}
+
+/**
+ * Which scope, if any, a node opens - and what to call it.
+ */
+function scopeOf(node: ts.Node, sourceFile: ts.SourceFile): { kind: ScopeKind; label: string } | null {
+  if (ts.isSourceFile(node)) {
+    return ts.isExternalModule(sourceFile)
+      ? { kind: 'module', label: 'module' }
+      : { kind: 'global', label: 'script (global)' };
+  }
+  if (isFunctionScope(node)) {
+    if (ts.isArrowFunction(node)) return { kind: 'function', label: 'arrow function' };
+    if (ts.isConstructorDeclaration(node)) return { kind: 'function', label: 'constructor' };
+
+    const name = node.name && ts.isIdentifier(node.name) ? ` ${node.name.text}` : '';
+    const keyword = ts.isGetAccessorDeclaration(node)
+      ? 'get'
+      : ts.isSetAccessorDeclaration(node)
+        ? 'set'
+        : ts.isMethodDeclaration(node)
+          ? 'method'
+          : 'function';
+    return { kind: 'function', label: `${keyword}${name}` };
+  }
+  if (ts.isClassLike(node)) {
+    return { kind: 'class', label: node.name ? `class ${node.name.text}` : 'class' };
+  }
+  if (ts.isCatchClause(node)) return { kind: 'catch', label: 'catch' };
+  // Type syntax declares nothing but its own type parameters, so it only
+  // opens a scope when it has some - otherwise "interface A<T>" and
+  // "interface B<T>" would put both Ts side by side
+  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+    return node.typeParameters
+      ? { kind: 'type', label: `${ts.isInterfaceDeclaration(node) ? 'interface' : 'type'} ${node.name.text}` }
+      : null;
+  }
+  if (
+    ts.isCallSignatureDeclaration(node) ||
+    ts.isConstructSignatureDeclaration(node) ||
+    ts.isMethodSignature(node) ||
+    ts.isFunctionTypeNode(node) ||
+    ts.isConstructorTypeNode(node)
+  ) {
+    if (!node.typeParameters) return null;
+    const label = ts.isCallSignatureDeclaration(node)
+      ? 'call signature'
+      : ts.isConstructSignatureDeclaration(node)
+        ? 'construct signature'
+        : ts.isMethodSignature(node)
+          ? `method signature${ts.isIdentifier(node.name) ? ` ${node.name.text}` : ''}`
+          : ts.isFunctionTypeNode(node)
+            ? 'function type'
+            : 'constructor type';
+    return { kind: 'type', label };
+  }
+  if (ts.isMappedTypeNode(node)) return { kind: 'type', label: 'mapped type' };
+  if (ts.isConditionalTypeNode(node) && containsInfer(node.extendsType)) {
+    return { kind: 'type', label: 'conditional type' };
+  }
+  if (ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node)) {
+    return { kind: 'block', label: ts.isForStatement(node) ? 'for' : ts.isForInStatement(node) ? 'for…in' : 'for…of' };
+  }
+  if (ts.isCaseBlock(node)) return { kind: 'block', label: 'switch' };
+  if (ts.isModuleBlock(node)) return { kind: 'block', label: 'namespace' };
+  if (ts.isBlock(node)) {
+    // A function's or catch clause's body shares the scope that owns it
+    const parent = node.parent;
+    if (parent && (isFunctionScope(parent) || ts.isCatchClause(parent))) return null;
+    return { kind: 'block', label: 'block' };
+  }
+  return null;
+}
+
+/**
+ * Every name a declaration introduces: "x" in "let x", and a, b and c in
+ * "const { a, b: [b, ...c] } = value".
+ */
+function collectBindingNames(name: ts.BindingName, names: ts.Identifier[] = []): ts.Identifier[] {
+  if (ts.isIdentifier(name)) {
+    names.push(name);
+  } else {
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) collectBindingNames(element.name, names);
+    }
+  }
+  return names;
+}
+
+/**
+ * Work out where every name in the file is declared and used.
+ *
+ * PARSING INSIGHT: Scopes and Bindings
+ * =====================================
+ * The tree says "there's an Identifier x here" and nothing more. Which x
+ * it is depends on where it sits:
+ *
+ *   let x = 1;            ← binding #1, in the module scope
+ *   function f(x) {       ← binding #2, a parameter in f's scope
+ *     return x * 2;       ← refers to #2: the nearest enclosing x wins
+ *   }
+ *   console.log(x);       ← refers to #1 (console is declared nowhere here)
+ *
+ * Scope analysis walks the tree once to record each scope's declarations,
+ * then resolves each use by looking outwards through the enclosing scopes
+ * until a scope declares the name. The rules come straight from the grammar:
+ * "var" and function parameters belong to the nearest function, "let",
+ * "const" and "class" to the nearest block, a catch clause's variable to
+ * the catch, a type parameter to the interface, signature or type that
+ * lists it. Declarations are collected first because of hoisting - a
+ * function can be called above the line that declares it. TypeScript adds
+ * a second namespace: types and values are looked up separately, so a use
+ * in a type annotation skips over a const of the same name.
+ *
+ * This is what makes renaming safe: a refactoring tool renames binding #1
+ * and its references, and leaves the parameter and its use alone, even
+ * though all four are spelled "x".
+ */
+export function analyzeScopes(sourceFile: ts.SourceFile): ScopeAnalysis {
+  const paths = new Map<ts.Node, string>();
+  const candidates: { node: ts.Identifier; scope: Scope }[] = [];
+  const declared = new Set<ts.Identifier>();
+  const parents = new Map<Scope, Scope | null>();
+
+  const createScope = (node: ts.Node, path: string, kind: ScopeKind, label: string): Scope => {
+    const from = ts.isSourceFile(node) ? 0 : node.getStart(sourceFile);
+    return {
+      kind,
+      label,
+      path,
+      from,
+      to: node.end,
+      startLine: sourceFile.getLineAndCharacterOfPosition(from).line + 1,
+      endLine: sourceFile.getLineAndCharacterOfPosition(node.end).line + 1,
+      declarations: [],
+      children: [],
+    };
+  };
+
+  const rootScope = scopeOf(sourceFile, sourceFile)!;
+  const root = createScope(sourceFile, '', rootScope.kind, rootScope.label);
+  parents.set(root, null);
+
+  // The scope "var" and parameters hoist to
+  const functionScopeOf = (scope: Scope): Scope => {
+    let current = scope;
+    while (current.kind !== 'function' && current.kind !== 'module' && current.kind !== 'global') {
+      current = parents.get(current)!;
+    }
+    return current;
+  };
+
+  const bindingNodes = new Map<Binding, ts.Identifier>();
+
+  const declare = (scope: Scope, name: ts.Identifier, kind: BindingKind) => {
+    declared.add(name);
+    if (!name.text) return; // A missing name from error recovery
+
+    const binding: Binding = {
+      name: name.text,
+      kind,
+      path: null, // Filled in once the walk has reached the identifier
+      from: name.getStart(sourceFile),
+      to: name.end,
+      references: [],
+    };
+    scope.declarations.push(binding);
+    bindingNodes.set(binding, name);
+  };
+
+  // Declarations a node makes, in the scope it makes them in
+  const declareFrom = (node: ts.Node, scope: Scope, ownScope: Scope | null) => {
+    if (ts.isVariableDeclarationList(node)) {
+      const isBlockScoped = (node.flags & ts.NodeFlags.BlockScoped) !== 0;
+      const kind: BindingKind = node.flags & ts.NodeFlags.Const ? 'const' : isBlockScoped ? 'let' : 'var';
+      const target = isBlockScoped ? scope : functionScopeOf(scope);
+      for (const declaration of node.declarations) {
+        collectBindingNames(declaration.name).forEach((name) => declare(target, name, kind));
+      }
+    } else if (ts.isParameter(node)) {
+      // Parameters of a function type or signature ("(a: number) => void") bind nothing
+      collectBindingNames(node.name).forEach((name) =>
+        isFunctionScope(node.parent) ? declare(scope, name, 'parameter') : declared.add(name)
+      );
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      declare(scope, node.name, 'function');
+    } else if (ts.isFunctionExpression(node) && node.name && ownScope) {
+      declare(ownScope, node.name, 'function'); // Only visible inside itself
+    } else if (ts.isClassDeclaration(node) && node.name) {
+      declare(scope, node.name, 'class');
+    } else if (ts.isClassExpression(node) && node.name && ownScope) {
+      declare(ownScope, node.name, 'class');
+    } else if (ts.isCatchClause(node) && node.variableDeclaration && ownScope) {
+      collectBindingNames(node.variableDeclaration.name).forEach((name) => declare(ownScope, name, 'catch'));
+    } else if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+      declare(scope, node.name, 'type');
+    } else if (ts.isTypeParameterDeclaration(node)) {
+      declare(scope, node.name, 'type');
+    } else if (ts.isEnumDeclaration(node)) {
+      declare(scope, node.name, 'enum');
+    } else if (ts.isModuleDeclaration(node) && ts.isIdentifier(node.name)) {
+      declare(scope, node.name, 'namespace');
+    } else if (ts.isImportClause(node) && node.name) {
+      declare(scope, node.name, 'import');
+    } else if (ts.isNamespaceImport(node) || ts.isImportSpecifier(node) || ts.isImportEqualsDeclaration(node)) {
+      declare(scope, node.name, 'import');
+    }
+  };
+
+  // Pass 1: scopes and declarations; remember every identifier that might be a use
+  const visit = (node: ts.Node, path: string, scope: Scope) => {
+    paths.set(node, path);
+
+    const opened = ts.isSourceFile(node) ? null : scopeOf(node, sourceFile);
+    let inner = scope;
+    if (opened) {
+      inner = createScope(node, path, opened.kind, opened.label);
+      parents.set(inner, scope);
+      scope.children.push(inner);
+    }
+
+    // Names declared by the node itself go outside its own scope ("function f"
+    // is visible next to f), except where the grammar says otherwise
+    declareFrom(node, scope, opened ? inner : null);
+
+    if (ts.isIdentifier(node) && !declared.has(node) && isReferencePosition(node)) {
+      candidates.push({ node, scope });
+    }
+
+    // Children - parameters and type parameters included - are inside the new scope
+    let index = 0;
+    ts.forEachChild(node, (child) => {
+      visit(child, childPath(path, index++), inner);
+    });
+  };
+  visit(sourceFile, '', root);
+
+  // Pass 2: resolve each use outwards through the enclosing scopes
+  const implicitGlobals = new Map<string, Binding>();
+
+  for (const { node, scope } of candidates) {
+    if (declared.has(node)) continue;
+
+    const meaning = referenceMeaning(node);
+    let binding: Binding | undefined;
+    for (let current: Scope | null = scope; current && !binding; current = parents.get(current) ?? null) {
+      binding = current.declarations.find(
+        (declaration) => declaration.name === node.text && hasMeaning(declaration, meaning)
+      );
+    }
+    if (!binding) {
+      binding = implicitGlobals.get(node.text);
+      if (!binding) {
+        binding = { name: node.text, kind: 'implicit', path: null, from: 0, to: 0, references: [] };
+        implicitGlobals.set(node.text, binding);
+      }
+    }
+
+    binding.references.push({
+      path: paths.get(node)!,
+      from: node.getStart(sourceFile),
+      to: node.end,
+      isWrite: isWriteReference(node),
+    });
+  }
+
+  for (const [binding, name] of bindingNodes) {
+    binding.path = paths.get(name) ?? null;
+  }
+
+  return { root, implicitGlobals: [...implicitGlobals.values()] };
+}
+
+/**
+ * Every identifier path that names a binding - its declaration and each
+ * reference - mapped to the binding.
+ */
+export function indexBindings(analysis: ScopeAnalysis): Map<string, Binding> {
+  const index = new Map<string, Binding>();
+
+  const add = (binding: Binding) => {
+    if (binding.path !== null) index.set(binding.path, binding);
+    binding.references.forEach((reference) => index.set(reference.path, binding));
+  };
+  const visit = (scope: Scope) => {
+    scope.declarations.forEach(add);
+    scope.children.forEach(visit);
+  };
+
+  visit(analysis.root);
+  analysis.implicitGlobals.forEach(add);
+  return index;
+}
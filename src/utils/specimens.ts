@@ -0,0 +1,116 @@
+import { ParseOptions, sanitizeParseOptions } from './parser';
+
+/**
+ * A snippet the user saved to their library ("My Specimens").
+ */
+export interface Specimen {
+  id: string;
+  name: string;
+  tags: string[];
+  code: string;
+  parseOptions: ParseOptions;
+  savedAt: number; // Epoch milliseconds of the last save
+}
+
+// Option values in the example picker: "specimen:<id>", so they can't
+// collide with the preset names
+export const SPECIMEN_PREFIX = 'specimen:';
+
+const STORAGE_KEY = 'arbor-parser:specimens';
+
+// Tag on exported files, so importing checks it was given one of ours
+const EXPORT_FORMAT = 'arbor-parser-specimens';
+const EXPORT_VERSION = 1;
+
+export function createSpecimenId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * "react, hooks,  demo" → ["react", "hooks", "demo"]
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean))];
+}
+
+// Anything read back from storage or a file is checked field by field;
+// entries that don't hold up are dropped rather than failing the lot
+function toSpecimen(value: unknown): Specimen | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const candidate = value as Partial<Specimen>;
+  if (typeof candidate.name !== 'string' || typeof candidate.code !== 'string') return null;
+
+  return {
+    id: typeof candidate.id === 'string' ? candidate.id : createSpecimenId(),
+    name: candidate.name,
+    tags: Array.isArray(candidate.tags) ? candidate.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    code: candidate.code,
+    parseOptions: sanitizeParseOptions(candidate.parseOptions),
+    savedAt: typeof candidate.savedAt === 'number' ? candidate.savedAt : Date.now(),
+  };
+}
+
+function toSpecimens(values: unknown): Specimen[] {
+  return Array.isArray(values)
+    ? values.map(toSpecimen).filter((specimen): specimen is Specimen => specimen !== null)
+    : [];
+}
+
+/**
+ * The saved library. Empty if there's none yet, or storage is unavailable
+ * (private browsing, blocked cookies).
+ */
+export function loadSpecimens(): Specimen[] {
+  try {
+    return toSpecimens(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write the library back. Returns false when storage refused it (full or
+ * unavailable).
+ */
+export function saveSpecimens(specimens: Specimen[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(specimens));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function exportSpecimens(specimens: Specimen[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, specimens }, null, 2);
+}
+
+/**
+ * Read specimens from an exported file. A bare array of specimens is
+ * accepted too, for files put together by hand.
+ */
+export function importSpecimens(
+  json: string
+): { success: true; specimens: Specimen[] } | { success: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && (data as { format?: unknown }).format === EXPORT_FORMAT
+      ? (data as { specimens?: unknown }).specimens
+      : undefined;
+  if (list === undefined) {
+    return { success: false, error: 'Not a specimen library export' };
+  }
+
+  const specimens = toSpecimens(list);
+  if (specimens.length === 0) {
+    return { success: false, error: 'No specimens found in the file' };
+  }
+  return { success: true, specimens };
+}
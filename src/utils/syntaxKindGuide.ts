@@ -0,0 +1,91 @@
+import * as ts from 'typescript';
+import guideData from './syntaxKindGuide.json';
+import { describeRef, internalProperties, isNode } from './nodeDetails';
+import { LanguageMode, languageModes } from './parser';
+
+/**
+ * One SyntaxKind in the field guide: what it is, where it belongs in the
+ * grammar, and a small piece of code that produces it. Kinds the parser
+ * never builds (compiler internals, scanner-only tokens) have no snippet.
+ */
+export interface GuideEntry {
+  name: string;
+  kind: ts.SyntaxKind;
+  category: string;
+  description: string;
+  snippet: string | null;
+  language: LanguageMode;
+  errors: boolean; // The snippet is meant to have syntax errors
+}
+
+/**
+ * A named child field, as seen on the snippet's node: the kinds it held
+ * there, or null when the snippet leaves it out.
+ */
+export interface GuideField {
+  name: string;
+  value: string | string[] | null;
+}
+
+interface GuideData {
+  [category: string]: {
+    [name: string]: { description: string; snippet: string | null; language?: LanguageMode; errors?: boolean };
+  };
+}
+
+// Checked against the installed TypeScript by src/utils/tests/test-syntax-kind-guide.js;
+// kinds a newer or older version doesn't have are skipped
+export const guideEntries: GuideEntry[] = Object.entries(guideData as GuideData).flatMap(([category, kinds]) =>
+  Object.entries(kinds)
+    .filter(([name]) => name in ts.SyntaxKind)
+    .map(([name, entry]) => ({
+      name,
+      kind: ts.SyntaxKind[name as keyof typeof ts.SyntaxKind],
+      category,
+      description: entry.description,
+      snippet: entry.snippet,
+      language: entry.language ?? 'ts',
+      errors: entry.errors ?? false,
+    }))
+);
+
+export const guideCategories = Object.keys(guideData);
+
+export const guideEntriesByName = new Map(guideEntries.map((entry) => [entry.name, entry]));
+
+/**
+ * The child fields of a kind, read off the node its snippet produces.
+ * Null when the snippet has no such node - tokens and trivia the parser
+ * doesn't keep, and kinds without a snippet.
+ */
+export function exampleFields(entry: GuideEntry): GuideField[] | null {
+  if (entry.snippet === null) return null;
+  const { fileName, scriptKind } = languageModes[entry.language];
+  const sourceFile = ts.createSourceFile(fileName, entry.snippet, ts.ScriptTarget.Latest, true, scriptKind);
+
+  const find = (node: ts.Node): ts.Node | undefined => {
+    if (node.kind === entry.kind) return node;
+    // Doc comments hang off their declaration rather than being children of it
+    const jsDoc = (node as { jsDoc?: ts.Node[] }).jsDoc ?? [];
+    for (const comment of jsDoc) {
+      const found = find(comment);
+      if (found) return found;
+    }
+    return ts.forEachChild(node, find);
+  };
+  const example = find(sourceFile);
+  if (!example) return null;
+
+  const fields: GuideField[] = [];
+  for (const [name, value] of Object.entries(example)) {
+    if (internalProperties.has(name) || typeof value === 'function') continue;
+    if (isNode(value)) {
+      fields.push({ name, value: describeRef(value, '').label });
+    } else if (Array.isArray(value) && 'hasTrailingComma' in value) {
+      fields.push({ name, value: value.filter(isNode).map((item) => describeRef(item, '').label) });
+    } else if (value === undefined) {
+      fields.push({ name, value: null });
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,240 @@
+import * as ts from 'typescript';
+import { isMissingNode } from './parser';
+import { collectComments, CommentInfo } from './comments';
+
+/**
+ * A plain-data copy of a ts.Node.
+ *
+ * Parsing happens in a Web Worker, and ts.Node objects can't cross the
+ * worker boundary (they hold parent pointers, methods and a reference to the
+ * whole SourceFile). The worker walks the tree once and sends back this
+ * shape instead - everything the views need to draw and highlight a node.
+ *
+ * Nodes are identified by their path: the child index taken at each level
+ * from the SourceFile down ("" is the SourceFile, "0.2" is the third child of
+ * the first child). Paths stay meaningful across re-parses as long as the
+ * tree above the node keeps its shape.
+ */
+export interface SyntaxTreeNode {
+  path: string;
+  kind: ts.SyntaxKind;
+  pos: number; // Full start, including leading trivia (whitespace, comments)
+  start: number; // First character of the node's own text - getStart()
+  end: number;
+  text?: string; // Identifier names and literal values
+  isFunctionName?: boolean; // Name of a function or method declaration
+  isMissing?: boolean; // Placeholder synthesized by the parser's error recovery
+  isReused?: boolean; // Carried over unchanged by an incremental reparse
+  comments?: CommentInfo[]; // Leading/trailing comments this node owns
+  field?: string; // Property of the parent this node sits in ("left", "statements")
+  fieldIndex?: number; // Position within that property, when it's a NodeArray
+  children: SyntaxTreeNode[];
+}
+
+export function childPath(parentPath: string, index: number): string {
+  return parentPath ? `${parentPath}.${index}` : String(index);
+}
+
+function isFunctionName(node: ts.Node): boolean {
+  const parent = node.parent;
+  return (
+    !!parent &&
+    (ts.isFunctionDeclaration(parent) ||
+      ts.isFunctionExpression(parent) ||
+      ts.isArrowFunction(parent) ||
+      ts.isMethodDeclaration(parent)) &&
+    (parent as { name?: ts.Node }).name === node
+  );
+}
+
+/**
+ * The parent property each child sits in, in ts.forEachChild order.
+ *
+ * forEachChild hands over bare nodes, losing which field they came from. Its
+ * optional second callback receives whole NodeArrays instead of their
+ * elements, so matching each visited node or array back to the parent's
+ * properties by identity recovers the names.
+ */
+export function getChildFields(node: ts.Node): { name: string; index?: number }[] {
+  const names = new Map<unknown, string>();
+  for (const [name, value] of Object.entries(node)) {
+    if (name !== 'parent' && typeof value === 'object' && value !== null && !names.has(value)) {
+      names.set(value, name);
+    }
+  }
+
+  const fields: { name: string; index?: number }[] = [];
+  ts.forEachChild(
+    node,
+    (child) => {
+      fields.push({ name: names.get(child) ?? '' });
+    },
+    (children) => {
+      const name = names.get(children) ?? '';
+      children.forEach((_, index) => fields.push({ name, index }));
+    }
+  );
+  return fields;
+}
+
+/**
+ * Copy a parsed tree into plain data (runs in the worker).
+ */
+export function serializeSyntaxTree(
+  sourceFile: ts.SourceFile,
+  reusedNodes?: ReadonlySet<ts.Node>
+): SyntaxTreeNode {
+  const comments = collectComments(sourceFile);
+
+  const visit = (node: ts.Node, path: string): SyntaxTreeNode => {
+    const serialized: SyntaxTreeNode = {
+      path,
+      kind: node.kind,
+      pos: node.pos,
+      start: node.getStart(sourceFile),
+      end: node.end,
+      children: [],
+    };
+
+    if (ts.isIdentifier(node) || ts.isStringLiteral(node) || ts.isNumericLiteral(node)) {
+      serialized.text = node.text;
+    }
+    if (isFunctionName(node)) {
+      serialized.isFunctionName = true;
+    }
+    if (isMissingNode(node)) {
+      serialized.isMissing = true;
+    }
+    if (reusedNodes?.has(node)) {
+      serialized.isReused = true;
+    }
+    if (comments.has(node)) {
+      serialized.comments = comments.get(node);
+    }
+
+    const fields = getChildFields(node);
+    let index = 0;
+    ts.forEachChild(node, (child) => {
+      const { name, index: fieldIndex } = fields[index];
+      const serializedChild = visit(child, childPath(path, index++));
+      serializedChild.field = name;
+      if (fieldIndex !== undefined) serializedChild.fieldIndex = fieldIndex;
+      serialized.children.push(serializedChild);
+    });
+
+    return serialized;
+  };
+
+  return visit(sourceFile, '');
+}
+
+/**
+ * Look up nodes by path (built once per parse on the main thread).
+ */
+export function indexSyntaxTree(root: SyntaxTreeNode): Map<string, SyntaxTreeNode> {
+  const index = new Map<string, SyntaxTreeNode>();
+  const visit = (node: SyntaxTreeNode) => {
+    index.set(node.path, node);
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return index;
+}
+
+/**
+ * Paths of every ancestor of a node, root ("") first.
+ */
+export function getAncestorPaths(path: string): string[] {
+  if (path === '') return [];
+  const parts = path.split('.');
+  return parts.map((_, i) => parts.slice(0, i).join('.'));
+}
+
+/**
+ * Find the deepest node whose source range contains the position.
+ *
+ * Ranges start at the node's own text, so leading whitespace and comments
+ * (trivia) don't count - a cursor in a comment above a function belongs to
+ * the enclosing block, not to the function. A cursor sitting right after
+ * an identifier still counts as "on" it, the way editors treat it.
+ */
+export function findNodeAtPosition(root: SyntaxTreeNode, position: number): SyntaxTreeNode {
+  let current = root;
+
+  for (;;) {
+    const child = current.children.find(
+      (candidate) =>
+        candidate.kind !== ts.SyntaxKind.EndOfFileToken &&
+        candidate.start <= position &&
+        position <= candidate.end
+    );
+
+    if (!child) return current;
+    current = child;
+  }
+}
+
+/**
+ * Find the deepest node that covers a whole range - for a token, the token
+ * node itself if the parser kept one, otherwise the construct it belongs to.
+ */
+export function findNodeCoveringRange(root: SyntaxTreeNode, from: number, to: number): SyntaxTreeNode {
+  let current = root;
+
+  for (;;) {
+    const child = current.children.find(
+      (candidate) =>
+        candidate.kind !== ts.SyntaxKind.EndOfFileToken &&
+        candidate.start <= from &&
+        to <= candidate.end &&
+        candidate.start < candidate.end
+    );
+
+    if (!child) return current;
+    current = child;
+  }
+}
+
+/**
+ * Follow a path back to the real ts.Node (runs in the worker, which keeps
+ * the SourceFile).
+ */
+export function resolveNodePath(root: ts.Node, path: string): ts.Node | undefined {
+  if (path === '') return root;
+
+  let current: ts.Node | undefined = root;
+  for (const part of path.split('.')) {
+    const index = Number(part);
+    let childIndex = 0;
+    let next: ts.Node | undefined;
+    ts.forEachChild(current, (child) => {
+      if (childIndex++ === index) {
+        next = child;
+        return true; // Stop iterating
+      }
+      return undefined;
+    });
+    current = next;
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+/**
+ * The inverse of resolveNodePath: where a node sits in its file's tree. Needs
+ * parent pointers (setParentNodes, or a bound program file).
+ */
+export function getNodePath(node: ts.Node): string {
+  const indexes: number[] = [];
+
+  for (let current = node; current.parent; current = current.parent) {
+    let index = 0;
+    ts.forEachChild(current.parent, (child) => {
+      if (child === current) return true; // Stop iterating
+      index++;
+      return undefined;
+    });
+    indexes.unshift(index);
+  }
+  return indexes.join('.');
+}
@@ -0,0 +1,43 @@
+import * as ts from 'typescript';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const sourceDir = new URL('../', import.meta.url);
+const typescriptUrl = import.meta.resolve('typescript');
+
+// Loads one of the TypeScript modules in src/utils for a test script: it
+// and the modules it imports are transpiled with the project's own
+// TypeScript into a temporary directory (removed once loaded), with
+// `typescript` pointed back at this project's copy.
+export async function loadModule(name) {
+  const tempDir = mkdtempSync(join(tmpdir(), 'arbor-test-'));
+  const outDir = pathToFileURL(`${tempDir}/`);
+  const written = new Set();
+
+  const transpile = (moduleName) => {
+    if (written.has(moduleName)) return;
+    written.add(moduleName);
+    const source = readFileSync(new URL(`${moduleName}.ts`, sourceDir), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    });
+    const imports = [];
+    const code = outputText
+      .replace(/from 'typescript'/g, `from '${typescriptUrl}'`)
+      .replace(/from '\.\/([\w-]+)'/g, (_, dependency) => {
+        imports.push(dependency);
+        return `from './${dependency}.js'`;
+      });
+    writeFileSync(new URL(`${moduleName}.js`, outDir), code);
+    imports.forEach(transpile);
+  };
+
+  try {
+    transpile(name);
+    return await import(new URL(`${name}.js`, outDir).href);
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
@@ -25,6 +25,10 @@ const testCases = [
     name: "Type assertion (as syntax)",
     code: `const value = someValue as string;`
   },
+  {
+    name: "Type assertion (angle-bracket syntax)",
+    code: `const value = <string>someValue;`
+  },
   {
     name: "Arrow function with generic",
     code: `const identity = <T>(x: T): T => x;`
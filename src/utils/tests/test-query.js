@@ -0,0 +1,92 @@
+import * as ts from 'typescript';
+import { loadModule } from './load-module.js';
+
+// Runs selectors from the query bar against small programs and checks which
+// nodes they match.
+
+const { selectNodes } = await loadModule('query');
+
+const testCases = [
+  {
+    name: 'Kind name',
+    code: `let a = 1; let b = a + 2;`,
+    selector: 'Identifier',
+    expected: ['a', 'b', 'a'],
+  },
+  {
+    name: 'Attribute by text',
+    code: `console.log(1); console.warn(2);`,
+    selector: 'CallExpression[expression.name.text="log"]',
+    expected: ['console.log(1)'],
+  },
+  {
+    name: 'Regex attribute',
+    code: `const x = 1, y = 2, xy = 3;`,
+    selector: 'Identifier[text=/^[xy]$/]',
+    expected: ['x', 'y'],
+  },
+  {
+    // g and y flags keep lastIndex between tests; each node must start fresh
+    name: 'Regex attribute with g and y flags',
+    code: `let x = 1; let y = x; x = y; y = x + y;`,
+    selector: 'Identifier[text=/^[xy]$/gy]',
+    expected: ['x', 'y', 'x', 'x', 'y', 'y', 'x', 'y'],
+  },
+  {
+    name: ':has and :not',
+    code: `function f() { return 1; } function g() {}`,
+    selector: 'FunctionDeclaration:not(:has(ReturnStatement))',
+    expected: ['function g() {}'],
+  },
+  {
+    name: 'Leading combinator inside :has',
+    code: `if (a) { b(); } if (c) d();`,
+    selector: 'IfStatement:has(> Block)',
+    expected: ['if (a) { b(); }'],
+  },
+  {
+    name: 'Leading combinator at the top level',
+    code: `a;`,
+    selector: '> Identifier',
+    expected: ['error: Only a selector inside :has() can start with a combinator'],
+  },
+  {
+    name: 'Leading combinator inside :not',
+    code: `a;`,
+    selector: 'Identifier:not(+ Identifier)',
+    expected: ['error: Only a selector inside :has() can start with a combinator'],
+  },
+  {
+    name: 'Object.prototype member as a kind',
+    code: `a;`,
+    selector: 'toString',
+    expected: ['error: Unknown SyntaxKind "toString"'],
+  },
+  {
+    name: 'Regex with a substring operator',
+    code: `a;`,
+    selector: 'Identifier[text^=/a/]',
+    expected: ['error: A regular expression can only be compared with = or !=, not ^='],
+  },
+];
+
+let failed = 0;
+for (const testCase of testCases) {
+  const sourceFile = ts.createSourceFile('temp.ts', testCase.code, ts.ScriptTarget.Latest, true);
+  const result = selectNodes(sourceFile, testCase.selector);
+  const actual = result.success
+    ? result.matches.map((match) => testCase.code.slice(match.start, match.end))
+    : [`error: ${result.error}`];
+  const passed = JSON.stringify(actual) === JSON.stringify(testCase.expected);
+  if (!passed) {
+    failed++;
+    console.log(`✗ ${testCase.name}: ${testCase.selector}`);
+    console.log(`    expected ${JSON.stringify(testCase.expected)}`);
+    console.log(`    got      ${JSON.stringify(actual)}`);
+  } else {
+    console.log(`✓ ${testCase.name}`);
+  }
+}
+
+console.log(`\n${testCases.length - failed}/${testCases.length} query cases passed`);
+if (failed > 0) process.exit(1);
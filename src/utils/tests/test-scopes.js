@@ -0,0 +1,78 @@
+import * as ts from 'typescript';
+import { loadModule } from './load-module.js';
+
+// Resolves names in small programs and checks which declaration each use
+// lands on. Uses are listed in source order as "name@line:declaration
+// line:kind", or "name@line:implicit" when nothing in the file declares it.
+
+const { analyzeScopes } = await loadModule('scopes');
+
+const testCases = [
+  {
+    name: 'Same type parameter name in two interfaces',
+    code: `interface A<T> { x: T }
+interface B<T> { y: T }`,
+    expected: ['T@1:1:type', 'T@2:2:type'],
+  },
+  {
+    name: 'Type parameters of signatures, function types and mapped types',
+    code: `type F = <T>(value: T) => T;
+type M<O> = { [K in keyof O]: O[K] };
+interface C { new <U>(value: U): U; call<V>(value: V): V }`,
+    expected: ['T@1:1:type', 'T@1:1:type', 'O@2:2:type', 'O@2:2:type', 'K@2:2:type', 'U@3:3:type', 'U@3:3:type', 'V@3:3:type', 'V@3:3:type'],
+  },
+  {
+    name: 'infer in a conditional type',
+    code: `type Item<A> = A extends (infer I)[] ? I : never;
+type Other = I;`,
+    expected: ['A@1:1:type', 'I@1:1:type', 'I@2:implicit'],
+  },
+  {
+    name: 'A type and a value with the same name',
+    code: `type X = { n: number };
+const X = { n: 1 };
+let a: X = X;`,
+    expected: ['X@3:1:type', 'X@3:2:const'],
+  },
+  {
+    name: 'Classes are types and values',
+    code: `class P {}
+interface Q extends P {}
+const p: P = new P();`,
+    expected: ['P@2:1:class', 'P@3:1:class', 'P@3:1:class'],
+  },
+];
+
+let failed = 0;
+for (const testCase of testCases) {
+  const sourceFile = ts.createSourceFile('temp.ts', testCase.code, ts.ScriptTarget.Latest, true);
+  const analysis = analyzeScopes(sourceFile);
+  const lineOf = (position) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const uses = [];
+  const collect = (binding) => {
+    for (const reference of binding.references) {
+      const target = binding.kind === 'implicit' ? 'implicit' : `${lineOf(binding.from)}:${binding.kind}`;
+      uses.push({ from: reference.from, text: `${binding.name}@${lineOf(reference.from)}:${target}` });
+    }
+  };
+  const visit = (scope) => {
+    scope.declarations.forEach(collect);
+    scope.children.forEach(visit);
+  };
+  visit(analysis.root);
+  analysis.implicitGlobals.forEach(collect);
+  const actual = uses.sort((a, b) => a.from - b.from).map((use) => use.text);
+
+  if (JSON.stringify(actual) !== JSON.stringify(testCase.expected)) {
+    failed++;
+    console.log(`✗ ${testCase.name}`);
+    console.log(`    expected ${JSON.stringify(testCase.expected)}`);
+    console.log(`    got      ${JSON.stringify(actual)}`);
+  } else {
+    console.log(`✓ ${testCase.name}`);
+  }
+}
+
+console.log(`\n${testCases.length - failed}/${testCases.length} scope cases passed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,99 @@
+import * as ts from 'typescript';
+import { readFileSync } from 'node:fs';
+
+// Checks the SyntaxKind field guide against the TypeScript it ships with:
+// every kind has an entry, and every example snippet parses (cleanly,
+// unless it's marked as an error example) into code containing its kind.
+
+const guide = JSON.parse(readFileSync(new URL('../syntaxKindGuide.json', import.meta.url), 'utf8'));
+
+const languages = {
+  js: { fileName: 'temp.js', scriptKind: ts.ScriptKind.JS },
+  jsx: { fileName: 'temp.jsx', scriptKind: ts.ScriptKind.JSX },
+  ts: { fileName: 'temp.ts', scriptKind: ts.ScriptKind.TS },
+  tsx: { fileName: 'temp.tsx', scriptKind: ts.ScriptKind.TSX },
+  dts: { fileName: 'temp.d.ts', scriptKind: ts.ScriptKind.TS },
+};
+
+// Marker aliases (FirstAssignment, LastToken...) share values with real
+// kinds; the real names are the ones the guide uses
+const kindNames = new Map();
+for (const [name, value] of Object.entries(ts.SyntaxKind)) {
+  if (typeof value !== 'number') continue;
+  const current = kindNames.get(value);
+  if (current === undefined || /^(First|Last)[A-Z]/.test(current)) kindNames.set(value, name);
+}
+const expected = new Set(kindNames.values());
+
+const failures = [];
+const entries = new Map();
+for (const [category, kinds] of Object.entries(guide)) {
+  for (const [name, entry] of Object.entries(kinds)) {
+    if (entries.has(name)) failures.push(`${name}: listed in both ${entries.get(name).category} and ${category}`);
+    entries.set(name, { ...entry, category });
+  }
+}
+
+for (const name of expected) {
+  if (!entries.has(name)) failures.push(`${name}: no entry`);
+}
+
+// Every kind in the snippet: nodes and the tokens the parser kept (JSDoc
+// included), plus what a plain scan finds - trivia, and keywords the
+// parser turned into names
+function kindsIn(code, language) {
+  const { fileName, scriptKind } = languages[language];
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const found = new Set();
+  const visit = (node) => {
+    found.add(node.kind);
+    node.getChildren(sourceFile).forEach(visit);
+  };
+  visit(sourceFile);
+
+  const variant = scriptKind === ts.ScriptKind.TSX || scriptKind === ts.ScriptKind.JSX
+    ? ts.LanguageVariant.JSX
+    : ts.LanguageVariant.Standard;
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, variant, code);
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    found.add(kind);
+  }
+  return { found, diagnostics: sourceFile.parseDiagnostics };
+}
+
+let checked = 0;
+for (const [name, entry] of entries) {
+  if (!expected.has(name)) {
+    failures.push(`${name}: not a SyntaxKind in TypeScript ${ts.version}`);
+    continue;
+  }
+  if (typeof entry.description !== 'string' || entry.description.trim() === '') {
+    failures.push(`${name}: no description`);
+  }
+  if (entry.snippet === null) continue;
+
+  const language = entry.language ?? 'ts';
+  if (!(language in languages)) {
+    failures.push(`${name}: unknown language "${language}"`);
+    continue;
+  }
+  const { found, diagnostics } = kindsIn(entry.snippet, language);
+  const messages = diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, ' '));
+  if (entry.errors && messages.length === 0) {
+    failures.push(`${name}: marked as an error example, but parses cleanly`);
+  } else if (!entry.errors && messages.length > 0) {
+    failures.push(`${name}: snippet has syntax errors - ${messages.join('; ')}`);
+  }
+  if (!found.has(ts.SyntaxKind[name])) {
+    failures.push(`${name}: snippet doesn't contain one`);
+  }
+  checked++;
+}
+
+console.log(`${entries.size} entries, ${expected.size} SyntaxKinds, ${checked} snippets parsed.`);
+if (failures.length > 0) {
+  console.log(`\n${failures.length} problem(s):`);
+  failures.forEach((failure) => console.log(`  ✗ ${failure}`));
+  process.exit(1);
+}
+console.log('✓ Every SyntaxKind is covered and every snippet produces its kind.');
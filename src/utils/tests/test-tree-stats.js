@@ -0,0 +1,62 @@
+import * as ts from 'typescript';
+import { loadModule } from './load-module.js';
+
+// Checks the Stats view's numbers on small programs: the category each node
+// lands in, and per-function complexity and nesting.
+
+const { computeTreeStats } = await loadModule('treeStats');
+
+const testCases = [
+  {
+    name: 'Identifiers and literals are expressions, not tokens',
+    code: `function f(a, b) { if (a && b) return 1; }`,
+    categories: { Statements: 4, Expressions: 7, Types: 0, Tokens: 2, Other: 3 },
+  },
+  {
+    name: 'Keywords count as the type or value they stand for',
+    code: `let s: string = this ? null : "x";`,
+    categories: { Statements: 1, Expressions: 5, Types: 1, Tokens: 3, Other: 3 },
+  },
+  {
+    name: 'Complexity and nesting',
+    code: `function fizz(n) {
+  for (let i = 1; i <= n; i++) {
+    if (i % 15 === 0) log("FizzBuzz");
+    else if (i % 3 === 0) log("Fizz");
+    else if (i % 5 === 0 || i % 7 === 0) log("Buzz");
+  }
+}`,
+    functions: [{ name: 'fizz', complexity: 6, nesting: 2 }],
+  },
+];
+
+let failed = 0;
+for (const testCase of testCases) {
+  const sourceFile = ts.createSourceFile('temp.ts', testCase.code, ts.ScriptTarget.Latest, true);
+  const stats = computeTreeStats(sourceFile);
+  const problems = [];
+
+  if (testCase.categories) {
+    const actual = Object.fromEntries(stats.categories.map((category) => [category.category, category.count]));
+    if (JSON.stringify(actual) !== JSON.stringify(testCase.categories)) {
+      problems.push(`categories: expected ${JSON.stringify(testCase.categories)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+  if (testCase.functions) {
+    const actual = stats.functions.map(({ name, complexity, nesting }) => ({ name, complexity, nesting }));
+    if (JSON.stringify(actual) !== JSON.stringify(testCase.functions)) {
+      problems.push(`functions: expected ${JSON.stringify(testCase.functions)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    failed++;
+    console.log(`✗ ${testCase.name}`);
+    problems.forEach((problem) => console.log(`    ${problem}`));
+  } else {
+    console.log(`✓ ${testCase.name}`);
+  }
+}
+
+console.log(`\n${testCases.length - failed}/${testCases.length} stats cases passed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,162 @@
+import * as ts from 'typescript';
+
+/**
+ * One token from the scanner, as plain data for the Tokens view.
+ */
+export interface TokenInfo {
+  kind: ts.SyntaxKind;
+  text: string;
+  start: number;
+  end: number;
+  line: number; // 1-based
+  column: number; // 1-based
+  isTrivia: boolean; // Whitespace, newlines and comments
+  isRescanned?: boolean; // The parser asked the scanner to read it differently
+}
+
+const triviaKinds = new Set([
+  ts.SyntaxKind.WhitespaceTrivia,
+  ts.SyntaxKind.NewLineTrivia,
+  ts.SyntaxKind.SingleLineCommentTrivia,
+  ts.SyntaxKind.MultiLineCommentTrivia,
+  ts.SyntaxKind.ShebangTrivia,
+  ts.SyntaxKind.ConflictMarkerTrivia,
+]);
+
+const greaterThanKinds = new Set([
+  ts.SyntaxKind.GreaterThanEqualsToken,
+  ts.SyntaxKind.GreaterThanGreaterThanToken,
+  ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken,
+  ts.SyntaxKind.GreaterThanGreaterThanEqualsToken,
+  ts.SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken,
+]);
+
+const jsxNameParents = new Set([
+  ts.SyntaxKind.JsxOpeningElement,
+  ts.SyntaxKind.JsxSelfClosingElement,
+  ts.SyntaxKind.JsxClosingElement,
+  ts.SyntaxKind.JsxAttribute,
+  ts.SyntaxKind.JsxNamespacedName,
+]);
+
+/**
+ * Where the parse tree says a token that the scanner can't find on its own
+ * begins, and what it turned out to be.
+ */
+function collectRescanHints(sourceFile: ts.SourceFile): Map<number, ts.SyntaxKind> {
+  const hints = new Map<number, ts.SyntaxKind>();
+
+  const visit = (node: ts.Node) => {
+    switch (node.kind) {
+      case ts.SyntaxKind.RegularExpressionLiteral:
+      case ts.SyntaxKind.TemplateMiddle:
+      case ts.SyntaxKind.TemplateTail:
+        hints.set(node.getStart(sourceFile), node.kind);
+        break;
+      case ts.SyntaxKind.JsxText:
+        // JSX text owns its whitespace, so it starts at its full start
+        hints.set(node.pos, node.kind);
+        break;
+      case ts.SyntaxKind.JsxClosingElement:
+      case ts.SyntaxKind.JsxClosingFragment:
+        hints.set(node.getStart(sourceFile), ts.SyntaxKind.LessThanSlashToken);
+        break;
+      case ts.SyntaxKind.Identifier:
+        // Tag and attribute names like "data-id" may contain hyphens
+        if (node.parent && jsxNameParents.has(node.parent.kind)) {
+          hints.set(node.getStart(sourceFile), node.kind);
+        }
+        break;
+      default:
+        if (greaterThanKinds.has(node.kind)) {
+          hints.set(node.getStart(sourceFile), node.kind);
+        }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return hints;
+}
+
+/**
+ * Break the text into tokens, trivia included.
+ *
+ * PARSING INSIGHT: The Scanner Doesn't Work Alone
+ * ================================================
+ * ts.createScanner is the lexer: it reads characters and emits one token at
+ * a time. Left to itself, though, it can't tokenize JavaScript correctly,
+ * because some characters mean different things depending on what the
+ * parser is in the middle of:
+ *
+ *   a / b / c        → two SlashTokens (division)
+ *   x = /b/c         → one RegularExpressionLiteral
+ *   `${a}b`          → after "a", "}b`" is a TemplateTail, not a CloseBrace
+ *   x >>= 1          → one GreaterThanGreaterThanEqualsToken...
+ *   Array<Set<T>>    → ...but two GreaterThanTokens here
+ *   <p>Don't</p>     → "Don't" is JsxText, not an identifier and a string
+ *
+ * So the scanner always reads the short, simple form, and the parser calls
+ * reScanSlashToken(), reScanTemplateToken(), reScanGreaterToken() or
+ * reScanJsxToken() when the grammar expects something else. We replay that
+ * conversation: scan with the same target and language variant the parser
+ * used, and wherever the finished tree says a different token starts, ask
+ * the scanner to rescan just as the parser did. Those tokens are flagged.
+ */
+export function scanTokens(sourceFile: ts.SourceFile): TokenInfo[] {
+  const scanner = ts.createScanner(
+    sourceFile.languageVersion,
+    false, // skipTrivia: keep whitespace and comments as tokens
+    sourceFile.languageVariant,
+    sourceFile.text
+  );
+  const hints = collectRescanHints(sourceFile);
+  const tokens: TokenInfo[] = [];
+
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    const start = scanner.getTokenStart();
+    const expected = hints.get(start);
+    let isRescanned = false;
+
+    if (expected !== undefined) {
+      const end = scanner.getTokenEnd();
+      const rescanned = rescan(scanner, kind, expected);
+      isRescanned = rescanned !== kind || scanner.getTokenEnd() !== end;
+      kind = rescanned;
+    }
+
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+    const token: TokenInfo = {
+      kind,
+      text: scanner.getTokenText(),
+      start,
+      end: scanner.getTokenEnd(),
+      line: line + 1,
+      column: character + 1,
+      isTrivia: triviaKinds.has(kind),
+    };
+    if (isRescanned) token.isRescanned = true;
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+function rescan(scanner: ts.Scanner, kind: ts.SyntaxKind, expected: ts.SyntaxKind): ts.SyntaxKind {
+  if (kind === expected && expected !== ts.SyntaxKind.Identifier) return kind;
+
+  switch (expected) {
+    case ts.SyntaxKind.RegularExpressionLiteral:
+      return scanner.reScanSlashToken();
+    case ts.SyntaxKind.TemplateMiddle:
+    case ts.SyntaxKind.TemplateTail:
+      return scanner.reScanTemplateToken(false);
+    case ts.SyntaxKind.JsxText:
+    case ts.SyntaxKind.LessThanSlashToken:
+      return scanner.reScanJsxToken();
+    case ts.SyntaxKind.Identifier:
+      return kind === ts.SyntaxKind.Identifier ? scanner.scanJsxIdentifier() : kind;
+    default:
+      return greaterThanKinds.has(expected) ? scanner.reScanGreaterToken() : kind;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Built-in transformers for the Transform pane.
+ *
+ * Each one is source text, not a function, so it can be shown in the
+ * transformer editor and edited like anything the user writes. The text is
+ * the body of a function that receives `ts` and returns a
+ * ts.TransformerFactory<ts.SourceFile>.
+ */
+export interface TransformerPreset {
+  name: string;
+  code: string;
+}
+
+export const transformerPresets: TransformerPreset[] = [
+  {
+    name: "Arrow functions → function expressions",
+    code: `// Rewrites every arrow function as a function expression.
+// (Not always safe: arrows don't have their own "this" - function expressions do.)
+return (context) => {
+  const { factory } = context;
+
+  const visit = (node) => {
+    // Transform children first, so nested arrows are rewritten too
+    node = ts.visitEachChild(node, visit, context);
+
+    if (ts.isArrowFunction(node)) {
+      // An expression body becomes a block that returns it
+      const body = ts.isBlock(node.body)
+        ? node.body
+        : factory.createBlock([factory.createReturnStatement(node.body)], true);
+
+      return factory.createFunctionExpression(
+        node.modifiers?.filter(ts.isModifier),
+        undefined, // asteriskToken
+        undefined, // name
+        node.typeParameters,
+        node.parameters,
+        node.type,
+        body
+      );
+    }
+    return node;
+  };
+
+  return (sourceFile) => ts.visitNode(sourceFile, visit);
+};
+`,
+  },
+  {
+    name: "Remove console.log",
+    code: `// Deletes every console.log(...) statement.
+return (context) => {
+  const isConsoleLog = (node) =>
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === "console" &&
+    node.expression.name.text === "log";
+
+  const visit = (node) => {
+    // Returning undefined from a visitor removes the node
+    if (ts.isExpressionStatement(node) && isConsoleLog(node.expression)) {
+      return undefined;
+    }
+    return ts.visitEachChild(node, visit, context);
+  };
+
+  return (sourceFile) => ts.visitNode(sourceFile, visit);
+};
+`,
+  },
+  {
+    name: "Identity (print as-is)",
+    code: `// Changes nothing - shows how the printer lays out the tree it's given.
+return (context) => (sourceFile) => sourceFile;
+`,
+  },
+];
@@ -0,0 +1,278 @@
+import * as ts from 'typescript';
+import { SyntaxTreeNode } from './syntaxTree';
+
+export type DiffStatus = 'inserted' | 'deleted' | 'updated' | 'moved';
+
+export interface KindChangeCount {
+  kind: ts.SyntaxKind;
+  inserted: number;
+  deleted: number;
+  updated: number;
+  moved: number;
+}
+
+export interface TreeDiff {
+  before: Map<string, DiffStatus>; // Old tree's paths: deleted, updated, moved
+  after: Map<string, DiffStatus>; // New tree's paths: inserted, updated, moved
+  matches: Map<string, string>; // Old path → new path, for every node the two trees share
+  counts: KindChangeCount[]; // Most-changed kinds first
+}
+
+// A node plus what the matcher needs to know about it
+interface Entry {
+  node: SyntaxTreeNode;
+  parent: Entry | null;
+  children: Entry[];
+  hash: number; // Equal for identical subtrees (kind, text and children)
+  size: number; // Nodes in the subtree
+  partner: Entry | null; // Its match in the other tree
+}
+
+/**
+ * Index a tree for matching. Subtree hashes are interned ids rather than
+ * strings, so comparing two subtrees is one number comparison however big
+ * they are.
+ */
+function indexTree(root: SyntaxTreeNode, hashes: Map<string, number>): Entry[] {
+  const entries: Entry[] = [];
+
+  const visit = (node: SyntaxTreeNode, parent: Entry | null): Entry => {
+    const entry: Entry = { node, parent, children: [], hash: 0, size: 1, partner: null };
+    entry.children = node.children.map((child) => visit(child, entry));
+
+    const key = `${node.kind}|${node.text ?? ''}|${entry.children.map((child) => child.hash).join(',')}`;
+    let hash = hashes.get(key);
+    if (hash === undefined) {
+      hash = hashes.size;
+      hashes.set(key, hash);
+    }
+    entry.hash = hash;
+    entry.size += entry.children.reduce((sum, child) => sum + child.size, 0);
+
+    entries.push(entry);
+    return entry;
+  };
+
+  visit(root, null);
+  return entries; // Post-order: children before their parents
+}
+
+function match(before: Entry, after: Entry) {
+  before.partner = after;
+  after.partner = before;
+}
+
+// Pair up two identical subtrees node for node
+function matchSubtree(before: Entry, after: Entry) {
+  match(before, after);
+  before.children.forEach((child, index) => matchSubtree(child, after.children[index]));
+}
+
+/**
+ * Longest common subsequence of two lists, as index pairs in order.
+ */
+function longestCommonSubsequence<T>(
+  left: T[],
+  right: T[],
+  isEqual: (a: T, b: T) => boolean
+): [number, number][] {
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] = isEqual(left[i], right[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (isEqual(left[i], right[j]) && lengths[i][j] === lengths[i + 1][j + 1] + 1) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Match the still-unmatched children of a matched pair: same kind, in the
+ * same order. Leaves left over between two such matches at the same
+ * position are paired too, whatever their kind - `+` becoming `-` is an
+ * update to the expression, not a deletion and an insertion.
+ */
+function alignChildren(before: Entry, after: Entry) {
+  const left = before.children.filter((child) => !child.partner);
+  const right = after.children.filter((child) => !child.partner);
+  const pairs = longestCommonSubsequence(left, right, (a, b) => a.node.kind === b.node.kind);
+
+  let i = 0;
+  let j = 0;
+  for (const [nextI, nextJ] of [...pairs, [left.length, right.length] as [number, number]]) {
+    if (nextI - i === nextJ - j) {
+      for (let k = 0; k < nextI - i; k++) {
+        const [a, b] = [left[i + k], right[j + k]];
+        if (a.children.length === 0 && b.children.length === 0) match(a, b);
+      }
+    }
+    if (nextI < left.length) match(left[nextI], right[nextJ]);
+    [i, j] = [nextI + 1, nextJ + 1];
+  }
+
+  // Carry on into every child pair that stayed together under this parent
+  for (const child of before.children) {
+    if (child.partner?.parent !== after) continue;
+    if (child.hash === child.partner.hash) {
+      matchSubtree(child, child.partner);
+    } else {
+      alignChildren(child, child.partner);
+    }
+  }
+}
+
+/**
+ * Of the entries whose partner sits in the same parent, those that changed
+ * order: everything outside the longest run that kept its order.
+ */
+function findReordered(pairs: Entry[]): Set<Entry> {
+  const kept = new Set(
+    longestCommonSubsequence(
+      pairs,
+      [...pairs].sort((a, b) => a.partner!.node.start - b.partner!.node.start),
+      (a, b) => a === b
+    ).map(([index]) => pairs[index])
+  );
+  return new Set(pairs.filter((entry) => !kept.has(entry)));
+}
+
+/**
+ * Compare two syntax trees node by node.
+ *
+ * PARSING INSIGHT: Diffing Trees, Not Lines
+ * ==========================================
+ * A line diff of a refactor is mostly noise: re-indent a block and every
+ * line in it "changed". A tree diff asks which nodes survived, which were
+ * added or removed, and which moved somewhere else - the question tools
+ * like GumTree and difftastic answer for code review.
+ *
+ * Matching happens in three passes, in the spirit of GumTree:
+ *
+ * 1. Anchors: subtrees that appear exactly once in each tree, unchanged,
+ *    are matched whole, biggest first. These are code that was kept or
+ *    moved.
+ * 2. Top-down: from the roots, the children of matched nodes are lined up
+ *    by kind and position (a longest common subsequence of their kinds).
+ * 3. Bottom-up: an unmatched node whose children were matched into one
+ *    node of the same kind on the other side is matched to it - the
+ *    wrapper around code that was edited inside.
+ *
+ * Then every node gets a status: inserted or deleted if it has no match,
+ * moved if its match sits under a different parent (or changed order among
+ * its siblings), updated if its text or token kind differs.
+ */
+export function diffTrees(before: SyntaxTreeNode, after: SyntaxTreeNode): TreeDiff {
+  const hashes = new Map<string, number>();
+  const beforeEntries = indexTree(before, hashes);
+  const afterEntries = indexTree(after, hashes);
+
+  // Pass 1: unique unchanged subtrees (with children - a lone identifier
+  // appearing once on each side says little about where code went)
+  const countHashes = (entries: Entry[]) => {
+    const counts = new Map<number, Entry[]>();
+    for (const entry of entries) {
+      const group = counts.get(entry.hash);
+      if (group) group.push(entry);
+      else counts.set(entry.hash, [entry]);
+    }
+    return counts;
+  };
+  const beforeByHash = countHashes(beforeEntries);
+  const afterByHash = countHashes(afterEntries);
+
+  const anchors = beforeEntries
+    .filter((entry) => entry.children.length > 0 && beforeByHash.get(entry.hash)!.length === 1 && afterByHash.get(entry.hash)?.length === 1)
+    .sort((a, b) => b.size - a.size);
+  for (const entry of anchors) {
+    const other = afterByHash.get(entry.hash)![0];
+    if (!entry.partner && !other.partner) matchSubtree(entry, other);
+  }
+
+  // Pass 2: line children up under matched parents, from the roots down
+  const beforeRoot = beforeEntries[beforeEntries.length - 1];
+  const afterRoot = afterEntries[afterEntries.length - 1];
+  if (!beforeRoot.partner && !afterRoot.partner && beforeRoot.node.kind === afterRoot.node.kind) {
+    match(beforeRoot, afterRoot);
+  }
+  if (beforeRoot.partner === afterRoot) alignChildren(beforeRoot, afterRoot);
+
+  // Pass 3: recover containers from their matched children (children first,
+  // so a chain of wrappers is recovered from the inside out)
+  for (const entry of afterEntries) {
+    if (entry.partner) continue;
+
+    const votes = new Map<Entry, number>();
+    for (const child of entry.children) {
+      const candidate = child.partner?.parent;
+      if (candidate && !candidate.partner && candidate.node.kind === entry.node.kind) {
+        votes.set(candidate, (votes.get(candidate) ?? 0) + 1);
+      }
+    }
+    const best = [...votes].sort((a, b) => b[1] - a[1])[0];
+    if (best) {
+      match(best[0], entry);
+      alignChildren(best[0], entry);
+    }
+  }
+
+  // Classify
+  const diff: TreeDiff = { before: new Map(), after: new Map(), matches: new Map(), counts: [] };
+  const counts = new Map<ts.SyntaxKind, KindChangeCount>();
+  const count = (kind: ts.SyntaxKind, status: DiffStatus) => {
+    if (!counts.has(kind)) counts.set(kind, { kind, inserted: 0, deleted: 0, updated: 0, moved: 0 });
+    counts.get(kind)![status]++;
+  };
+
+  const reordered = new Set<Entry>();
+  for (const entry of afterEntries) {
+    const stayed = entry.children.filter((child) => child.partner && child.partner.parent === entry.partner);
+    findReordered(stayed).forEach((child) => reordered.add(child));
+  }
+
+  for (const entry of afterEntries) {
+    const partner = entry.partner;
+    if (!partner) {
+      diff.after.set(entry.node.path, 'inserted');
+      count(entry.node.kind, 'inserted');
+      continue;
+    }
+
+    diff.matches.set(partner.node.path, entry.node.path);
+
+    const isMoved = (entry.parent !== null && partner.parent?.partner !== entry.parent) || reordered.has(entry);
+    const isUpdated = entry.node.kind !== partner.node.kind || entry.node.text !== partner.node.text;
+    const status: DiffStatus | null = isMoved ? 'moved' : isUpdated ? 'updated' : null;
+    if (status) {
+      diff.after.set(entry.node.path, status);
+      diff.before.set(partner.node.path, status);
+      count(entry.node.kind, status);
+    }
+  }
+
+  for (const entry of beforeEntries) {
+    if (!entry.partner) {
+      diff.before.set(entry.node.path, 'deleted');
+      count(entry.node.kind, 'deleted');
+    }
+  }
+
+  const total = (c: KindChangeCount) => c.inserted + c.deleted + c.updated + c.moved;
+  diff.counts = [...counts.values()].sort((a, b) => total(b) - total(a));
+  return diff;
+}
@@ -0,0 +1,294 @@
+import * as ts from 'typescript';
+import { getNodeTypeName } from './parser';
+import { childPath } from './syntaxTree';
+
+export type NodeCategory = 'Statements' | 'Expressions' | 'Types' | 'Tokens' | 'Other';
+
+export const nodeCategories: NodeCategory[] = ['Statements', 'Expressions', 'Types', 'Tokens', 'Other'];
+
+export interface KindCount {
+  name: string;
+  category: NodeCategory;
+  count: number;
+}
+
+export interface CategoryCount {
+  category: NodeCategory;
+  count: number;
+  kinds: string[]; // Kind names in this file that fall in the category
+}
+
+/**
+ * Size and shape metrics for one function-like node with a body.
+ */
+export interface FunctionStats {
+  name: string; // "add", "Point.constructor", "(anonymous)"
+  kind: string; // FunctionDeclaration, ArrowFunction...
+  path: string;
+  start: number;
+  end: number;
+  line: number; // 1-based
+  nodes: number; // Nodes in the function, nested functions excluded
+  complexity: number; // Cyclomatic complexity
+  nesting: number; // Deepest stack of nested control structures
+}
+
+export interface TreeStats {
+  totalNodes: number;
+  maxDepth: number; // Edges from the SourceFile down to the deepest leaf
+  leaves: number;
+  branching: { average: number; max: number }; // Children per node that has any
+  kinds: KindCount[]; // Most common first
+  categories: CategoryCount[];
+  functions: FunctionStats[]; // In document order
+}
+
+// Declarations that stand as statements (the rest are parts of one)
+const declarationStatementKinds = new Set([
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.InterfaceDeclaration,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.EnumDeclaration,
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.ImportEqualsDeclaration,
+  ts.SyntaxKind.ImportDeclaration,
+  ts.SyntaxKind.ExportAssignment,
+  ts.SyntaxKind.ExportDeclaration,
+  ts.SyntaxKind.NamespaceExportDeclaration,
+  ts.SyntaxKind.MissingDeclaration,
+]);
+
+// Each one adds a path through the function
+const branchKinds = new Set([
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.ConditionalExpression,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement,
+  ts.SyntaxKind.CaseClause,
+  ts.SyntaxKind.CatchClause,
+]);
+
+// Short-circuiting operators branch too: the right side may never run
+const branchOperators = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+const nestingKinds = new Set([
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement,
+  ts.SyntaxKind.SwitchStatement,
+  ts.SyntaxKind.TryStatement,
+]);
+
+/**
+ * The category a node's kind falls in. It depends on the kind alone, so a
+ * category can be selected by listing its kinds.
+ */
+export function categoryOf(node: ts.Node): NodeCategory {
+  const kind = node.kind;
+  if (
+    (kind >= ts.SyntaxKind.FirstStatement && kind <= ts.SyntaxKind.LastStatement) ||
+    kind === ts.SyntaxKind.Block ||
+    declarationStatementKinds.has(kind)
+  ) {
+    return 'Statements';
+  }
+  // Keywords that stand for a type (`string`) or a value (`this`, `null`)
+  // count as what they stand for, as do identifiers and literals
+  if (ts.isTypeNode(node)) return 'Types';
+  if (ts.isExpression(node)) return 'Expressions';
+  if (
+    (kind >= ts.SyntaxKind.FirstPunctuation && kind <= ts.SyntaxKind.LastPunctuation) ||
+    (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) ||
+    kind === ts.SyntaxKind.EndOfFileToken
+  ) {
+    return 'Tokens';
+  }
+  return 'Other';
+}
+
+// The innermost function being walked, and how deep its nesting is there
+interface FunctionFrame {
+  stats: FunctionStats;
+  nesting: number;
+}
+
+function isFunctionWithBody(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return ts.isFunctionLike(node) && (node as ts.FunctionLikeDeclaration).body !== undefined;
+}
+
+function nameOf(name: ts.PropertyName | ts.BindingName | undefined): string | null {
+  if (!name) return null;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return ts.isComputedPropertyName(name) ? '[computed]' : null;
+}
+
+// What people would call the function: its own name, or the name it's assigned to
+function functionName(node: ts.FunctionLikeDeclaration): string {
+  const own = ts.isConstructorDeclaration(node) ? 'constructor' : nameOf(node.name);
+  const parent = node.parent;
+  const name =
+    own ??
+    ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) &&
+    parent.initializer === node
+      ? nameOf(parent.name)
+      : null) ??
+    '(anonymous)';
+
+  const owner = ts.isClassLike(parent) ? parent : ts.isPropertyDeclaration(parent) ? parent.parent : null;
+  const ownerName = owner && ts.isClassLike(owner) ? owner.name?.text : undefined;
+  return ownerName ? `${ownerName}.${name}` : name;
+}
+
+/**
+ * Measure the tree of one file.
+ *
+ * PARSING INSIGHT: Weighing a Tree
+ * =================================
+ * Two programs that print the same thing can have very different trees.
+ * The node count is the weight; the depth says how far the parser had to
+ * nest; the branching factor (children per inner node) says how bushy it
+ * is - long argument lists and flat statement lists branch wide, chains of
+ * `a.b.c.d` and nested calls grow deep and narrow.
+ *
+ * Cyclomatic complexity is read off the same tree: one path through a
+ * function, plus one for every node that can split it - an if, a loop, a
+ * case, a catch, a `?:`, and the short-circuiting `&&`, `||` and `??`.
+ * Nesting is the deepest stack of ifs, loops, switches and trys, with
+ * `else if` counted as a sibling of its if, the way it reads. Neither
+ * looks inside nested functions: those are measured on their own.
+ */
+export function computeTreeStats(sourceFile: ts.SourceFile): TreeStats {
+  const kindCounts = new Map<string, KindCount>();
+  const functions: FunctionStats[] = [];
+  let totalNodes = 0;
+  let maxDepth = 0;
+  let leaves = 0;
+  let innerNodes = 0;
+  let maxBranching = 0;
+
+  const visit = (node: ts.Node, path: string, depth: number, frame: FunctionFrame | null) => {
+    totalNodes++;
+    maxDepth = Math.max(maxDepth, depth);
+
+    const name = getNodeTypeName(node.kind);
+    const count = kindCounts.get(name);
+    if (count) count.count++;
+    else kindCounts.set(name, { name, category: categoryOf(node), count: 1 });
+
+    let inner = frame;
+    if (isFunctionWithBody(node)) {
+      const start = node.getStart(sourceFile);
+      const stats: FunctionStats = {
+        name: functionName(node),
+        kind: name,
+        path,
+        start,
+        end: node.end,
+        line: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+        nodes: 0,
+        complexity: 1,
+        nesting: 0,
+      };
+      functions.push(stats);
+      inner = { stats, nesting: 0 };
+    }
+
+    if (inner) {
+      inner.stats.nodes++;
+      if (branchKinds.has(node.kind)) inner.stats.complexity++;
+      if (ts.isBinaryExpression(node) && branchOperators.has(node.operatorToken.kind)) inner.stats.complexity++;
+
+      const isElseIf =
+        ts.isIfStatement(node) && ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      if (nestingKinds.has(node.kind) && !isElseIf) {
+        inner = { ...inner, nesting: inner.nesting + 1 };
+        inner.stats.nesting = Math.max(inner.stats.nesting, inner.nesting);
+      }
+    }
+
+    const children: ts.Node[] = [];
+    ts.forEachChild(node, (child) => {
+      children.push(child);
+    });
+    if (children.length === 0) {
+      leaves++;
+    } else {
+      innerNodes++;
+      maxBranching = Math.max(maxBranching, children.length);
+    }
+    children.forEach((child, index) => visit(child, childPath(path, index), depth + 1, inner));
+  };
+
+  visit(sourceFile, '', 0, null);
+
+  const kinds = [...kindCounts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  const categories = nodeCategories.map((category) => {
+    const members = kinds.filter((kind) => kind.category === category);
+    return {
+      category,
+      count: members.reduce((sum, kind) => sum + kind.count, 0),
+      kinds: members.map((kind) => kind.name),
+    };
+  });
+
+  return {
+    totalNodes,
+    maxDepth,
+    leaves,
+    branching: {
+      // Every node but the root is somebody's child
+      average: innerNodes > 0 ? (totalNodes - 1) / innerNodes : 0,
+      max: maxBranching,
+    },
+    kinds,
+    categories,
+    functions,
+  };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The stats as one long-format CSV table - group, name, metric, value -
+ * so two files' exports can be stacked or diffed row by row.
+ */
+export function treeStatsToCsv(stats: TreeStats): string {
+  const rows: (string | number)[][] = [
+    ['group', 'name', 'metric', 'value'],
+    ['file', '', 'nodes', stats.totalNodes],
+    ['file', '', 'maxDepth', stats.maxDepth],
+    ['file', '', 'leaves', stats.leaves],
+    ['file', '', 'averageBranching', stats.branching.average.toFixed(2)],
+    ['file', '', 'maxBranching', stats.branching.max],
+    ...stats.categories.map((category) => ['category', category.category, 'count', category.count]),
+    ...stats.kinds.map((kind) => ['kind', kind.name, 'count', kind.count]),
+    ...stats.functions.flatMap((fn) => {
+      const name = `${fn.name} (line ${fn.line})`;
+      return [
+        ['function', name, 'nodes', fn.nodes],
+        ['function', name, 'complexity', fn.complexity],
+        ['function', name, 'nesting', fn.nesting],
+      ];
+    }),
+  ];
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,198 @@
+import * as ts from 'typescript';
+import { ParseDiagnostic, ParseOptions, toParseDiagnostics } from './parser';
+import { getNodePath, resolveNodePath } from './syntaxTree';
+import { decodeFlags, describeRef, NodeRef } from './nodeDetails';
+
+/**
+ * Where a symbol was declared. Declarations in the editor's file link to
+ * their node; ones in the standard library (console, Array...) only say where.
+ */
+export interface DeclarationInfo {
+  node: NodeRef | null; // null outside the editor's file
+  fileName: string;
+  line: number; // 1-based
+}
+
+/**
+ * What the type checker knows about one node, as plain data.
+ */
+export interface TypeInfo {
+  type: string | null; // checker.typeToString, e.g. "(a: number, b: number) => number"
+  typeFlags: string[];
+  symbol: {
+    name: string;
+    flags: string[];
+    declarations: DeclarationInfo[];
+  } | null;
+}
+
+/**
+ * Reads the text of a standard library file by name, e.g. "lib.es5.d.ts".
+ */
+export type LibFileReader = (fileName: string) => Promise<string | undefined>;
+
+// The directory the compiler looks for lib files in - they live in memory
+const LIB_DIRECTORY = '/lib/';
+
+// Lib files only need parsing once; every program after that shares them
+const libTexts = new Map<string, string>();
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+export function getCompilerOptions(options: ParseOptions): ts.CompilerOptions {
+  return {
+    target: options.target,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+    strict: true,
+    allowJs: true,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [], // There's no node_modules/@types to look in
+  };
+}
+
+/**
+ * Fetch the default lib for these options and everything it references
+ * through /// <reference lib="..." />, so that creating a program - which is
+ * synchronous - finds them all in memory.
+ */
+export async function loadLibFiles(options: ParseOptions, readLib: LibFileReader): Promise<void> {
+  const queue = [ts.getDefaultLibFileName(getCompilerOptions(options))];
+
+  while (queue.length > 0) {
+    const fileName = queue.pop()!;
+    if (libTexts.has(fileName)) continue;
+
+    const text = (await readLib(fileName)) ?? '';
+    libTexts.set(fileName, text);
+
+    for (const reference of ts.preProcessFile(text, true, false).libReferenceDirectives) {
+      queue.push(`lib.${reference.fileName.toLowerCase()}.d.ts`);
+    }
+  }
+}
+
+/**
+ * Build a program around an already-parsed file (call loadLibFiles first).
+ *
+ * PARSING INSIGHT: From Syntax to Semantics
+ * ==========================================
+ * The parser knows what the code says, never what it means. In
+ * "const total = add(1, 2)", "add" is just an Identifier - the parser has no
+ * idea whether it's a function, what it returns, or whether it exists.
+ *
+ * Answering that takes two more passes over the tree:
+ *
+ *   1. The binder walks each file and creates a Symbol for every
+ *      declaration, grouping them into scopes - the one "add" symbol that
+ *      the declaration and every call share.
+ *   2. The checker resolves each name to its symbol (following scopes out
+ *      to the global lib declarations like console and Array), infers
+ *      types, and reports what doesn't fit: the semantic diagnostics.
+ *
+ * Both need a Program - the set of files that see each other. Ours is the
+ * editor's file plus the standard library, served from memory by a
+ * CompilerHost instead of the disk. The program reuses the exact SourceFile
+ * the parser produced, so node paths from the tree views still point at the
+ * nodes the checker annotated.
+ */
+export function createProgram(
+  sourceFile: ts.SourceFile,
+  options: ParseOptions,
+  oldProgram?: ts.Program
+): ts.Program {
+  const compilerOptions = getCompilerOptions(options);
+  const isUserFile = (fileName: string) =>
+    fileName === sourceFile.fileName || fileName === `/${sourceFile.fileName}`;
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (isUserFile(fileName)) return sourceFile;
+
+      const name = fileName.slice(LIB_DIRECTORY.length);
+      const text = fileName.startsWith(LIB_DIRECTORY) ? libTexts.get(name) : undefined;
+      if (text === undefined) return undefined;
+
+      const key = `${name}@${options.target}`;
+      if (!libSourceFiles.has(key)) {
+        libSourceFiles.set(key, ts.createSourceFile(fileName, text, languageVersion));
+      }
+      return libSourceFiles.get(key);
+    },
+    getDefaultLibFileName: (compilerOptions) =>
+      LIB_DIRECTORY + ts.getDefaultLibFileName(compilerOptions),
+    getDefaultLibLocation: () => LIB_DIRECTORY,
+    fileExists: (fileName) =>
+      isUserFile(fileName) ||
+      (fileName.startsWith(LIB_DIRECTORY) && libTexts.has(fileName.slice(LIB_DIRECTORY.length))),
+    readFile: (fileName) =>
+      isUserFile(fileName) ? sourceFile.text : libTexts.get(fileName.slice(LIB_DIRECTORY.length)),
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+  };
+
+  return ts.createProgram({
+    rootNames: [sourceFile.fileName],
+    options: compilerOptions,
+    host,
+    oldProgram,
+  });
+}
+
+/**
+ * Type errors in the editor's file - the ones that parse fine but don't
+ * make sense, like calling a number or passing a string where a number goes.
+ */
+export function getSemanticDiagnostics(program: ts.Program, sourceFile: ts.SourceFile): ParseDiagnostic[] {
+  return toParseDiagnostics(sourceFile, program.getSemanticDiagnostics(sourceFile));
+}
+
+/**
+ * Ask the checker about the node at a path: its type, and the symbol it
+ * declares or refers to.
+ */
+export function describeType(program: ts.Program, sourceFile: ts.SourceFile, path: string): TypeInfo | null {
+  const node = resolveNodePath(sourceFile, path);
+  if (!node) return null;
+
+  const checker = program.getTypeChecker();
+  const type = checker.getTypeAtLocation(node);
+  // Statements and keywords have no type; the checker answers with its
+  // internal error type, which would print as "any"
+  const hasType = (type as ts.Type & { intrinsicName?: string }).intrinsicName !== 'error';
+
+  // A declaration's symbol hangs off its name: "add" in "function add() {}"
+  const name = ts.isDeclarationStatement(node) || ts.isVariableDeclaration(node) || ts.isParameter(node)
+    ? ts.getNameOfDeclaration(node)
+    : undefined;
+  const symbol = checker.getSymbolAtLocation(node) ?? (name && checker.getSymbolAtLocation(name));
+
+  return {
+    type: hasType ? checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation) : null,
+    typeFlags: hasType ? decodeFlags(type.flags, ts.TypeFlags as unknown as Record<string, number>) : [],
+    symbol: symbol
+      ? {
+          name: symbol.getName(),
+          flags: decodeFlags(symbol.flags, ts.SymbolFlags as unknown as Record<string, number>),
+          declarations: (symbol.declarations ?? []).map((declaration) =>
+            describeDeclaration(declaration, sourceFile)
+          ),
+        }
+      : null,
+  };
+}
+
+function describeDeclaration(declaration: ts.Node, sourceFile: ts.SourceFile): DeclarationInfo {
+  const file = declaration.getSourceFile();
+  const { line } = file.getLineAndCharacterOfPosition(declaration.getStart(file));
+
+  return {
+    node: file === sourceFile ? describeRef(declaration, getNodePath(declaration)) : null,
+    fileName: file === sourceFile ? file.fileName : file.fileName.slice(LIB_DIRECTORY.length),
+    line: line + 1,
+  };
+}
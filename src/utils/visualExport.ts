@@ -0,0 +1,348 @@
+import { colors } from '../theme/botanical';
+
+/**
+ * A visualization as a standalone SVG document, and its size in CSS pixels.
+ */
+export interface VisualSnapshot {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Canvases larger than this fail silently (or crash the tab) in some browsers
+const MAX_CANVAS_SIDE = 16384;
+
+// Computed styles copied onto the clone. The rest keep their initial values,
+// which is what the views leave them at.
+const svgProperties = [
+  'display', 'visibility', 'opacity', 'fill', 'fill-opacity', 'stroke', 'stroke-width',
+  'stroke-opacity', 'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin', 'font-family',
+  'font-size', 'font-style', 'font-weight', 'letter-spacing', 'text-anchor', 'dominant-baseline',
+  'paint-order', 'filter',
+];
+
+const htmlProperties = [
+  'display', 'visibility', 'opacity', 'position', 'top', 'right', 'bottom', 'left', 'z-index',
+  'box-sizing', 'width', 'height', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width',
+  'border-top-style', 'border-right-style', 'border-bottom-style', 'border-left-style',
+  'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color',
+  'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius',
+  'border-bottom-left-radius', 'background-color', 'background-image', 'box-shadow', 'color',
+  'font-family', 'font-size', 'font-style', 'font-weight', 'line-height', 'letter-spacing',
+  'text-align', 'text-decoration-line', 'text-transform', 'text-overflow', 'white-space',
+  'word-break', 'overflow-wrap', 'vertical-align', 'overflow-x', 'overflow-y', 'flex-direction',
+  'flex-wrap', 'flex-grow', 'flex-shrink', 'flex-basis', 'align-items', 'align-self',
+  'justify-content', 'row-gap', 'column-gap', 'grid-template-columns', 'transform',
+];
+
+// Inherited properties only need writing where they change from the parent
+const inheritedProperties = new Set([
+  'visibility', 'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin', 'font-family', 'font-size',
+  'font-style', 'font-weight', 'letter-spacing', 'text-anchor', 'dominant-baseline', 'paint-order',
+  'color', 'line-height', 'text-align', 'text-transform', 'white-space', 'word-break',
+  'overflow-wrap',
+]);
+
+// ...and the others where they differ from their initial value
+const initialValues: Record<string, string[]> = {
+  display: ['inline'],
+  opacity: ['1'],
+  position: ['static'],
+  top: ['auto'],
+  right: ['auto'],
+  bottom: ['auto'],
+  left: ['auto'],
+  'z-index': ['auto'],
+  'box-sizing': ['content-box'],
+  width: ['auto'],
+  height: ['auto'],
+  'background-color': ['rgba(0, 0, 0, 0)', 'transparent'],
+  'background-image': ['none'],
+  'box-shadow': ['none'],
+  'text-decoration-line': ['none'],
+  'text-overflow': ['clip'],
+  'vertical-align': ['baseline'],
+  'overflow-x': ['visible'],
+  'overflow-y': ['visible'],
+  'flex-direction': ['row'],
+  'flex-wrap': ['nowrap'],
+  'flex-grow': ['0'],
+  'flex-shrink': ['1'],
+  'flex-basis': ['auto'],
+  'align-items': ['normal'],
+  'align-self': ['auto'],
+  'justify-content': ['normal'],
+  'row-gap': ['normal'],
+  'column-gap': ['normal'],
+  'grid-template-columns': ['none'],
+  transform: ['none'],
+  filter: ['none'],
+};
+
+function isInitial(property: string, value: string): boolean {
+  if (initialValues[property]?.includes(value)) return true;
+  // Margins, padding, border widths and radii
+  if (/^(margin|padding)-|^border-.*-(width|radius)$/.test(property)) return value === '0px';
+  return property.endsWith('-style') && value === 'none';
+}
+
+/**
+ * Copy the computed styles of source (and its descendants) onto clone as
+ * inline styles, so the clone renders the same with no stylesheet at all.
+ * The font families the styles name are collected, for embedding.
+ */
+function inlineStyles(source: Element, clone: Element, families: Set<string>, parentStyle: CSSStyleDeclaration | null) {
+  const style = getComputedStyle(source);
+  const isSvg = source instanceof SVGElement;
+  const target = (clone as HTMLElement | SVGElement).style;
+
+  for (const property of isSvg ? svgProperties : htmlProperties) {
+    const value = style.getPropertyValue(property);
+    if (!value) continue;
+    if (inheritedProperties.has(property)) {
+      if (parentStyle && parentStyle.getPropertyValue(property) === value) continue;
+    } else if (isInitial(property, value)) {
+      continue;
+    }
+    target.setProperty(property, value);
+  }
+  for (const family of style.fontFamily.split(',')) {
+    families.add(family.trim().replace(/^["']|["']$/g, ''));
+  }
+
+  // The live page has pointers over it; the picture shouldn't show them
+  target.removeProperty('cursor');
+  target.removeProperty('transition');
+
+  // Form fields keep what the user typed in a property, not an attribute
+  if (source instanceof HTMLInputElement) clone.setAttribute('value', source.value);
+
+  for (let i = 0; i < source.children.length; i++) {
+    inlineStyles(source.children[i], clone.children[i], families, style);
+  }
+
+  // Scrolled containers: shift the content instead, since a scroll offset
+  // doesn't survive serialization (virtualized lists only render the rows
+  // in view, so the picture is what's on screen)
+  if (!isSvg && (source.scrollTop > 0 || source.scrollLeft > 0)) {
+    for (let i = 0; i < source.children.length; i++) {
+      const childStyle = (clone.children[i] as HTMLElement).style;
+      const own = getComputedStyle(source.children[i]).transform;
+      childStyle.transform = `translate(${-source.scrollLeft}px, ${-source.scrollTop}px)${own === 'none' ? '' : ` ${own}`}`;
+    }
+  }
+}
+
+/**
+ * The palette as custom properties, for styles that were written with
+ * var(--ink-fresh) and friends and came through the clone unresolved.
+ */
+function paletteCss(): string {
+  const root = getComputedStyle(document.documentElement);
+  const properties = [
+    ...Object.entries(colors.paper).map(([name, value]) => `--paper-${name}: ${value};`),
+    ...Object.entries(colors.ink).map(([name, value]) => `--ink-${name}: ${value};`),
+    ...Object.entries(colors.botanical).map(([name, value]) => `--${name}: ${value};`),
+    ...['--font-display', '--font-body', '--font-mono'].map(
+      (name) => `${name}: ${root.getPropertyValue(name).trim()};`
+    ),
+  ];
+  return `svg { ${properties.join(' ')} }`;
+}
+
+// Font stylesheets and files are fetched once per page, however many
+// exports follow
+const fontCssCache = new Map<string, Promise<string>>();
+const fontDataCache = new Map<string, Promise<string | null>>();
+
+function fetchText(url: string): Promise<string> {
+  let cached = fontCssCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then((response) => (response.ok ? response.text() : ''))
+      .catch(() => '');
+    fontCssCache.set(url, cached);
+  }
+  return cached;
+}
+
+function fetchAsDataUrl(url: string): Promise<string | null> {
+  let cached = fontDataCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then((response) => (response.ok ? response.blob() : Promise.reject(new Error(response.statusText))))
+      .then(
+        (blob) =>
+          new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+          })
+      )
+      .catch(() => null);
+    fontDataCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * @font-face rules for the web fonts the picture uses, with the font files
+ * inlined as data URLs. An SVG opened on its own (or drawn to a canvas)
+ * can't load anything, so a linked font would fall back to Georgia.
+ *
+ * The faces come from the font stylesheets the page imports; only their
+ * Latin subsets are kept, which is all the views draw. Offline, this
+ * returns no rules and the picture uses the fallback fonts.
+ */
+async function embeddedFontCss(families: Set<string>): Promise<string> {
+  const stylesheetUrls: string[] = [];
+  for (const sheet of document.styleSheets) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue; // Cross-origin sheets can't be read
+    }
+    for (const rule of rules) {
+      if (rule instanceof CSSImportRule && rule.href.includes('fonts.googleapis.com')) {
+        stylesheetUrls.push(rule.href);
+      }
+    }
+  }
+
+  const faces = await Promise.all(
+    stylesheetUrls.map(async (url) => (await fetchText(url)).match(/@font-face\s*{[^}]*}/g) ?? [])
+  );
+
+  const rules = await Promise.all(
+    faces.flat().map(async (face) => {
+      const family = /font-family:\s*['"]?([^;'"]+)/.exec(face)?.[1];
+      const unicodeRange = /unicode-range:\s*([^;]+)/.exec(face)?.[1];
+      const url = /url\(([^)]+)\)/.exec(face)?.[1];
+      if (!family || !families.has(family) || !url) return null;
+      if (unicodeRange && !unicodeRange.includes('U+0000-00FF')) return null;
+
+      const data = await fetchAsDataUrl(url.replace(/^["']|["']$/g, ''));
+      return data && face.replace(/url\([^)]+\)/, `url(${data})`);
+    })
+  );
+  return rules.filter(Boolean).join('\n');
+}
+
+/**
+ * Turn a visualization on the page into a standalone SVG document.
+ *
+ * The Rings and Radial views are SVG already: they're cloned as they
+ * stand (zoom and all) at their viewBox size. The other views are HTML,
+ * so they're cloned into a <foreignObject> at the size they have on
+ * screen. Either way the computed styles are inlined, the palette is
+ * declared for anything still written as var(--...), the web fonts are
+ * embedded, and the paper shows through as the background.
+ */
+export async function snapshotVisualization(element: Element): Promise<VisualSnapshot> {
+  const families = new Set<string>();
+  const clone = element.cloneNode(true) as Element;
+  inlineStyles(element, clone, families, null);
+  const style = `${paletteCss()}\n${await embeddedFontCss(families)}`;
+  const background = colors.paper.pristine;
+
+  if (element instanceof SVGSVGElement) {
+    const box = element.viewBox.baseVal;
+    const hasViewBox = box !== null && box.width > 0 && box.height > 0;
+    const rect = element.getBoundingClientRect();
+    const x = hasViewBox ? box.x : 0;
+    const y = hasViewBox ? box.y : 0;
+    const width = hasViewBox ? box.width : rect.width;
+    const height = hasViewBox ? box.height : rect.height;
+
+    // Sized by its own coordinates, not the space it had on the page
+    const svg = clone as SVGSVGElement;
+    svg.setAttribute('xmlns', SVG_NS);
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    svg.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+    for (const property of ['width', 'height', 'max-width', 'cursor']) svg.style.removeProperty(property);
+
+    const defs = document.createElementNS(SVG_NS, 'defs');
+    const styleElement = document.createElementNS(SVG_NS, 'style');
+    styleElement.textContent = style;
+    defs.appendChild(styleElement);
+    const paper = document.createElementNS(SVG_NS, 'rect');
+    paper.setAttribute('x', String(x));
+    paper.setAttribute('y', String(y));
+    paper.setAttribute('width', String(width));
+    paper.setAttribute('height', String(height));
+    paper.setAttribute('fill', background);
+    svg.insertBefore(paper, svg.firstChild);
+    svg.insertBefore(defs, svg.firstChild);
+
+    return { svg: new XMLSerializer().serializeToString(svg), width, height };
+  }
+
+  const rect = element.getBoundingClientRect();
+  const width = Math.ceil(rect.width);
+  const height = Math.ceil(rect.height);
+  const html = clone as HTMLElement;
+  html.style.setProperty('width', `${width}px`);
+  html.style.setProperty('height', `${height}px`);
+  html.style.setProperty('overflow', 'hidden');
+  html.style.setProperty('margin', '0');
+
+  const svg =
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><style>${escapeXml(style)}</style></defs>` +
+    `<rect width="${width}" height="${height}" fill="${background}"/>` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">` +
+    `${new XMLSerializer().serializeToString(html)}</foreignObject></svg>`;
+  return { svg, width, height };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Draw a snapshot onto a canvas at scale × its size and encode it as PNG.
+ */
+export async function renderPng(
+  snapshot: VisualSnapshot,
+  scale: number
+): Promise<{ success: true; png: Blob } | { success: false; error: string }> {
+  const width = Math.round(snapshot.width * scale);
+  const height = Math.round(snapshot.height * scale);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+    return {
+      success: false,
+      error: `${width} × ${height} px is more than a canvas can hold - pick a smaller scale`,
+    };
+  }
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(snapshot.svg)}`;
+  try {
+    await image.decode();
+  } catch {
+    return { success: false, error: "The browser couldn't draw this view - export SVG instead" };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return { success: false, error: 'Canvas is unavailable in this browser' };
+  context.drawImage(image, 0, 0, width, height);
+
+  // Some browsers taint the canvas when the SVG holds HTML (foreignObject)
+  try {
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    return png ? { success: true, png } : { success: false, error: "Couldn't encode the PNG" };
+  } catch {
+    return { success: false, error: "This browser won't rasterize HTML views - export SVG instead" };
+  }
+}
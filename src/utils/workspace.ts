@@ -0,0 +1,60 @@
+import { ParseOptions, sanitizeParseOptions } from './parser';
+
+/**
+ * What's autosaved between visits: the editor buffers and how the page was
+ * laid out.
+ */
+export interface WorkspaceState {
+  code: string;
+  example: string; // Preset name, specimen option value, or "Custom"
+  vizMode: string;
+  parseOptions: ParseOptions;
+  selectedPath: string | null;
+  compareCode: string;
+  compareExample: string;
+  showInspector: boolean;
+  showTransform: boolean;
+}
+
+const STORAGE_KEY = 'arbor-parser:workspace';
+
+/**
+ * The workspace saved by the last visit, or null if there's none (or it
+ * can't be read).
+ */
+export function loadWorkspace(): WorkspaceState | null {
+  let stored: Partial<WorkspaceState>;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+  if (typeof stored !== 'object' || stored === null) return null;
+  if (typeof stored.code !== 'string' || typeof stored.example !== 'string') return null;
+
+  const text = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+  return {
+    code: stored.code,
+    example: stored.example,
+    vizMode: text(stored.vizMode, 'nodes'),
+    parseOptions: sanitizeParseOptions(stored.parseOptions),
+    selectedPath: typeof stored.selectedPath === 'string' ? stored.selectedPath : null,
+    compareCode: text(stored.compareCode, ''),
+    compareExample: text(stored.compareExample, 'Custom'),
+    showInspector: stored.showInspector !== false,
+    showTransform: stored.showTransform === true,
+  };
+}
+
+/**
+ * Save the workspace. Failures (storage full or disabled) are ignored:
+ * autosave is a convenience, and the permalink in the URL still holds the
+ * code.
+ */
+export function saveWorkspace(state: WorkspaceState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Nothing to do - see above
+  }
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// The transform worker bundled into one script (see vite.config.ts)
+declare module 'virtual:transform-worker-source' {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,188 @@
+import * as ts from 'typescript';
+import { ParsedDocument, toParsedDocument } from '../utils/parseDocument';
+import { parseCode, ParseDiagnostic, ParseError, ParseOptions, TextEdit } from '../utils/parser';
+import { describeNode, NodeDetails } from '../utils/nodeDetails';
+import { createProgram, describeType, getSemanticDiagnostics, loadLibFiles, TypeInfo } from '../utils/typeChecker';
+import { readLibFile } from '../utils/libFiles';
+import { QueryResult, selectNodes } from '../utils/query';
+import { AstExportOptions, AstExportResult, exportAst } from '../utils/astExport';
+import { computeTreeStats, TreeStats } from '../utils/treeStats';
+
+export interface ParseRequest {
+  type: 'parse';
+  id: number;
+  sourceCode: string;
+  options: ParseOptions;
+  edits: TextEdit[]; // Editor changes since the previous request, oldest first
+}
+
+export interface ParseResponse {
+  type: 'parse';
+  id: number;
+  document: ParsedDocument | ParseError;
+}
+
+/**
+ * Questions about the current tree that need the real ts.Node objects.
+ * Each entry maps a query name to its parameters and its answer.
+ */
+export interface WorkerQueries {
+  inspect: { params: { path: string }; result: NodeDetails | null };
+  typeInfo: { params: { path: string }; result: TypeInfo | null };
+  semanticDiagnostics: { params: Record<string, never>; result: ParseDiagnostic[] };
+  select: { params: { selector: string }; result: QueryResult };
+  exportAst: { params: AstExportOptions; result: AstExportResult };
+  stats: { params: Record<string, never>; result: TreeStats };
+}
+
+export type QueryName = keyof WorkerQueries;
+
+export interface QueryRequest<K extends QueryName = QueryName> {
+  type: 'query';
+  id: number;
+  query: K;
+  params: WorkerQueries[K]['params'];
+}
+
+export interface QueryResponse<K extends QueryName = QueryName> {
+  type: 'query';
+  id: number;
+  result: WorkerQueries[K]['result'] | null; // null when there's no tree yet, or the query threw
+}
+
+export type WorkerRequest = ParseRequest | QueryRequest;
+export type WorkerResponse = ParseResponse | QueryResponse;
+
+/**
+ * The newest tree, and the program around it for queries that need the
+ * type checker (built on first use, since most edits never ask).
+ */
+interface QueryContext {
+  sourceFile: ts.SourceFile;
+  getProgram: () => ts.Program | null; // null for JSON, which has no types
+}
+
+const queryHandlers: {
+  [K in QueryName]: (context: QueryContext, params: WorkerQueries[K]['params']) => WorkerQueries[K]['result'];
+} = {
+  inspect: ({ sourceFile }, { path }) => describeNode(sourceFile, path),
+  typeInfo: ({ sourceFile, getProgram }, { path }) => {
+    const program = getProgram();
+    return program && describeType(program, sourceFile, path);
+  },
+  semanticDiagnostics: ({ sourceFile, getProgram }) => {
+    const program = getProgram();
+    return program ? getSemanticDiagnostics(program, sourceFile) : [];
+  },
+  select: ({ sourceFile }, { selector }) => selectNodes(sourceFile, selector),
+  exportAst: ({ sourceFile }, options) => exportAst(sourceFile, options),
+  stats: ({ sourceFile }) => computeTreeStats(sourceFile),
+};
+
+// Queries that build a program, and so need the lib files loaded first
+const checkerQueries = new Set<QueryName>(['typeInfo', 'semanticDiagnostics']);
+
+/**
+ * Parse Worker
+ *
+ * Runs the TypeScript parser, hierarchy building and layout off the main
+ * thread so typing stays smooth on large files.
+ *
+ * Requests that pile up while a parse is running are stale by the time we
+ * get to them - only the newest one is worth parsing. Each message just
+ * records itself as the pending request; the actual work is scheduled as a
+ * separate task, so any messages already queued behind it overwrite it first.
+ * A skipped request's edits are still part of the way from the last tree to
+ * the newest text, so they're kept.
+ *
+ * The last tree stays here, never crossing to the main thread, so the next
+ * request can be parsed incrementally from it. Queries about the tree are
+ * answered here too, against the newest parse (a pending parse goes first).
+ *
+ * The same goes for the type checker's program: it's rebuilt lazily after
+ * each parse, passing the old one in so the lib files are reused.
+ */
+let pending: ParseRequest | null = null;
+let previous: { sourceFile: ts.SourceFile; options: ParseOptions } | null = null;
+let program: ts.Program | null = null;
+let isProgramStale = true;
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'query') {
+    answerQuery(request);
+    return;
+  }
+
+  const isScheduled = pending !== null;
+  pending = pending
+    ? { ...request, edits: [...pending.edits, ...request.edits] }
+    : request;
+  if (!isScheduled) setTimeout(parsePending, 0);
+});
+
+async function answerQuery<K extends QueryName>(request: QueryRequest<K>) {
+  let result: WorkerQueries[K]['result'] | null = null;
+  try {
+    parsePending();
+
+    // Loading libs is the one asynchronous step; newer edits may land meanwhile
+    if (previous && checkerQueries.has(request.query)) {
+      await loadLibFiles(previous.options, readLibFile);
+      parsePending();
+    }
+
+    const handler = queryHandlers[request.query] as (
+      context: QueryContext,
+      params: WorkerQueries[K]['params']
+    ) => WorkerQueries[K]['result'];
+
+    if (previous) result = handler({ sourceFile: previous.sourceFile, getProgram }, request.params);
+  } catch (error) {
+    // The page is waiting on this id - answer it, even if only with null
+    console.error(`Query "${request.query}" failed:`, error);
+  }
+
+  const response: QueryResponse<K> = { type: 'query', id: request.id, result };
+  self.postMessage(response);
+}
+
+function getProgram(): ts.Program | null {
+  if (!previous || previous.options.language === 'json') return null;
+
+  if (isProgramStale) {
+    program = createProgram(previous.sourceFile, previous.options, program ?? undefined);
+    isProgramStale = false;
+  }
+  return program;
+}
+
+function isSameOptions(a: ParseOptions, b: ParseOptions) {
+  return a.language === b.language && a.target === b.target && a.module === b.module;
+}
+
+function parsePending() {
+  const request = pending;
+  pending = null;
+  if (!request) return;
+
+  // Switching grammar means a different file as far as the parser is concerned
+  const base = previous && isSameOptions(previous.options, request.options) ? previous.sourceFile : null;
+  const result = parseCode(
+    request.sourceCode,
+    request.options,
+    base ? { sourceFile: base, edits: request.edits } : undefined
+  );
+
+  // updateSourceFile invalidates the old tree, so always move on to the new one
+  previous = result.success ? { sourceFile: result.ast, options: request.options } : null;
+  isProgramStale = true;
+
+  const response: ParseResponse = {
+    type: 'parse',
+    id: request.id,
+    document: result.success ? toParsedDocument(result) : result,
+  };
+  self.postMessage(response);
+}
@@ -0,0 +1,78 @@
+import * as ts from 'typescript';
+import { parseCode, ParseOptions } from '../utils/parser';
+import { serializeSyntaxTree, SyntaxTreeNode } from '../utils/syntaxTree';
+
+export interface TransformRequest {
+  id: number;
+  sourceCode: string;
+  options: ParseOptions;
+  transformerCode: string; // Function body returning a TransformerFactory
+}
+
+export type TransformResult =
+  | { success: true; code: string; tree: SyntaxTreeNode; diagnostics: string[] }
+  | { success: false; error: string };
+
+export interface TransformResponse {
+  id: number;
+  result: TransformResult;
+}
+
+/**
+ * Transform Worker
+ *
+ * Runs user-written transformers away from everything else. Code typed
+ * into the transformer editor can do anything JavaScript can, including
+ * loop forever, so it never runs on the main thread or in the parse worker.
+ * This worker is started inside a sandboxed iframe with an opaque origin
+ * and no network (see createTransformSandbox), so the code can't reach the
+ * site's storage or anything outside, and the page tears the sandbox down
+ * if it doesn't answer in time (see useTransform).
+ *
+ * The source is parsed again here rather than borrowed from the parse
+ * worker, so a transformer that mutates nodes can't damage the tree the
+ * views are showing.
+ */
+self.addEventListener('message', (event: MessageEvent<TransformRequest>) => {
+  const { id, sourceCode, options, transformerCode } = event.data;
+  const response: TransformResponse = { id, result: transform(sourceCode, options, transformerCode) };
+  self.postMessage(response);
+});
+
+function transform(sourceCode: string, options: ParseOptions, transformerCode: string): TransformResult {
+  const parsed = parseCode(sourceCode, options);
+  if (!parsed.success) return parsed;
+
+  try {
+    const createFactory = new Function('ts', transformerCode);
+    const factory = createFactory(ts);
+    if (typeof factory !== 'function') {
+      return { success: false, error: 'The transformer code must return a TransformerFactory: (context) => (sourceFile) => sourceFile' };
+    }
+
+    const result = ts.transform(parsed.ast, [factory as ts.TransformerFactory<ts.SourceFile>]);
+    const [output] = result.transformed;
+    if (!output || !ts.isSourceFile(output)) {
+      result.dispose();
+      return { success: false, error: 'The transformer must return a SourceFile' };
+    }
+
+    const code = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed }).printFile(output);
+    const diagnostics = (result.diagnostics ?? []).map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+    );
+    result.dispose();
+
+    // Synthesized nodes have no positions, so the tree shown is the printed
+    // code parsed again - exactly what a build would hand to the next tool
+    const reparsed = parseCode(code, options);
+    if (!reparsed.success) return reparsed;
+
+    return { success: true, code, tree: serializeSyntaxTree(reparsed.ast), diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+    };
+  }
+}
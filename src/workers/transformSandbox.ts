@@ -0,0 +1,111 @@
+import type { TransformRequest, TransformResponse } from './transform.worker';
+
+/**
+ * A transform worker running in a sandbox, and the way to talk to it.
+ */
+export interface TransformSandbox {
+  ready: Promise<void>; // Resolves once requests can be answered; rejects if the worker can't be loaded
+  postMessage: (request: TransformRequest) => void;
+  onmessage: ((response: TransformResponse) => void) | null;
+  terminate: () => void;
+}
+
+// Only what the relay below needs: its own inline script, eval for the
+// transformer's `new Function`, and a worker started from a blob. A worker
+// started from a blob inherits this policy, so no fetch, XHR, WebSocket,
+// importScripts or import() gets anywhere
+const SANDBOX_POLICY = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+// Starts the worker from the source it's sent, then passes requests in and
+// responses out. It answers a worker that fails to start or crashes, so the
+// page hears about it rather than waiting for the timeout
+const relayScript = `
+let worker = null;
+let latestId = 0;
+addEventListener('message', (event) => {
+  if (event.source !== parent) return;
+  const message = event.data;
+  if (message.type === 'start') {
+    const url = URL.createObjectURL(new Blob([message.source], { type: 'text/javascript' }));
+    try {
+      worker = new Worker(url);
+    } catch (error) {
+      parent.postMessage({ type: 'failed', error: String(error) }, '*');
+      return;
+    }
+    worker.onmessage = (response) => parent.postMessage(response.data, '*');
+    worker.onerror = (error) => parent.postMessage({
+      id: latestId,
+      result: { success: false, error: 'The transform worker failed: ' + (error.message || 'unknown error') },
+    }, '*');
+    parent.postMessage({ type: 'started' }, '*');
+  } else if (worker) {
+    latestId = message.request.id;
+    worker.postMessage(message.request);
+  }
+});
+`;
+
+const sandboxDocument = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>${relayScript}</script>`;
+
+/**
+ * Start a transform worker in a sandbox.
+ *
+ * User-written transformers can do anything JavaScript can, so the worker
+ * doesn't run on this page's origin. It runs inside an iframe with
+ * sandbox="allow-scripts" and no allow-same-origin, which gives it an
+ * opaque origin: no cookies, storage, IndexedDB or caches of this site,
+ * and its messages only reach the iframe. The iframe's Content Security
+ * Policy, which the worker inherits, closes the network.
+ *
+ * An opaque origin can't load modules from this server, so the worker
+ * arrives as one bundled script (see vite.config.ts) and is started from a
+ * blob. Terminating removes the iframe, and the worker goes with it.
+ */
+export function createTransformSandbox(): TransformSandbox {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.hidden = true;
+  iframe.srcdoc = sandboxDocument;
+
+  let resolveReady: () => void = () => {};
+  let rejectReady: (error: unknown) => void = () => {};
+  const sandbox: TransformSandbox = {
+    ready: new Promise((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    }),
+    postMessage: (request) => iframe.contentWindow?.postMessage({ type: 'request', request }, '*'),
+    onmessage: null,
+    terminate: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+    },
+  };
+
+  // Messages from the iframe only; the sandbox's origin is "null", so the
+  // source window is the only thing to check
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow) return;
+    if (event.data?.type === 'started') {
+      resolveReady();
+    } else if (event.data?.type === 'failed') {
+      rejectReady(new Error(event.data.error));
+    } else {
+      sandbox.onmessage?.(event.data as TransformResponse);
+    }
+  };
+  window.addEventListener('message', handleMessage);
+
+  const source = import('virtual:transform-worker-source').then((module) => module.default);
+  const loaded = new Promise((resolve) => iframe.addEventListener('load', resolve, { once: true }));
+  Promise.all([source, loaded]).then(([workerSource]) => {
+    iframe.contentWindow?.postMessage({ type: 'start', source: workerSource }, '*');
+  }, rejectReady);
+
+  document.body.appendChild(iframe);
+  return sandbox;
+}
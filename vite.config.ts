@@ -1,7 +1,82 @@
-import { defineConfig } from 'vite'
+import { build, defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath } from 'node:url'
+
+const TRANSFORM_WORKER_SOURCE = 'virtual:transform-worker-source'
+
+// The transform worker as one self-contained classic script, exported as a
+// string. The transform sandbox starts it from a blob inside an opaque-origin
+// iframe, which can't load modules from this server - so it has to arrive
+// with TypeScript and everything else bundled in, in dev as well as build.
+function transformWorkerSource(): Plugin {
+  const entry = fileURLToPath(new URL('./src/workers/transform.worker.ts', import.meta.url))
+  const resolvedId = `\0${TRANSFORM_WORKER_SOURCE}`
+  let isBuild = false
+  let bundled: Promise<{ code: string; files: string[] }> | null = null
+  let bundledFiles = new Set<string>()
+
+  const bundle = async () => {
+    const output = await build({
+      configFile: false,
+      logLevel: 'warn',
+      publicDir: false,
+      build: {
+        write: false,
+        minify: isBuild,
+        sourcemap: false,
+        rollupOptions: {
+          input: entry,
+          output: { format: 'iife', inlineDynamicImports: true },
+        },
+      },
+    })
+    const [result] = Array.isArray(output) ? output : [output]
+    if (!('output' in result)) throw new Error('Expected a bundle, not a watcher')
+    const chunk = result.output.find((file) => file.type === 'chunk')!
+    return { code: chunk.code, files: Object.keys(chunk.modules) }
+  }
+
+  return {
+    name: 'transform-worker-source',
+    configResolved(config) {
+      isBuild = config.command === 'build'
+    },
+    resolveId(id) {
+      return id === TRANSFORM_WORKER_SOURCE ? resolvedId : undefined
+    },
+    async load(id) {
+      if (id !== resolvedId) return
+      bundled ??= bundle()
+      const { code, files } = await bundled
+      bundledFiles = new Set(files)
+      files.forEach((file) => this.addWatchFile(file))
+      // No source map: mapping a string of the whole bundle is larger than the bundle
+      return { code: `export default ${JSON.stringify(code)}`, map: { mappings: '' } }
+    },
+    // An edit to the worker (or anything it imports) rebundles on next load
+    handleHotUpdate({ file, server }) {
+      if (!bundledFiles.has(file)) return
+      bundled = null
+      bundledFiles = new Set()
+      const module = server.moduleGraph.getModuleById(resolvedId)
+      if (module) server.moduleGraph.invalidateModule(module)
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), transformWorkerSource()],
+  resolve: {
+    alias: {
+      // typescript-estree (the ESTree export) is written for Node and works
+      // out file paths while setting up a parse, even with no tsconfig
+      // involved; see also src/utils/nodeShims.ts
+      'node:path': 'path-browserify',
+    },
+  },
+  worker: {
+    // The parse worker lazy-loads lib.*.d.ts chunks, which needs code splitting
+    format: 'es',
+  },
 })